@@ -0,0 +1,123 @@
+/**
+ * @since 1.0.0
+ */
+import * as Schema from "effect/Schema";
+
+/**
+ * The call did not complete within the `timeout` given in its options.
+ *
+ * @since 1.0.0
+ * @category Errors
+ */
+export class BridgeTimeout extends Schema.TaggedError<BridgeTimeout>()(
+	"BridgeTimeout",
+	{
+		group: Schema.String,
+		endpoint: Schema.String,
+		timeout: Schema.DurationFromMillis,
+	},
+) {
+	get message(): string {
+		return `Request to "${this.group}.${this.endpoint}" timed out`;
+	}
+}
+
+/**
+ * The requested group or endpoint does not exist in the API definition.
+ *
+ * @since 1.0.0
+ * @category Errors
+ */
+export class EndpointNotFound extends Schema.TaggedError<EndpointNotFound>()(
+	"EndpointNotFound",
+	{
+		group: Schema.String,
+		endpoint: Schema.String,
+	},
+) {
+	get message(): string {
+		return `Endpoint "${this.endpoint}" not found in group "${this.group}"`;
+	}
+}
+
+/**
+ * The endpoint was called through the wrong method: `query` only accepts
+ * GET and HEAD endpoints, `mutation` only the others.
+ *
+ * @since 1.0.0
+ * @category Errors
+ */
+export class MethodMismatch extends Schema.TaggedError<MethodMismatch>()(
+	"MethodMismatch",
+	{
+		group: Schema.String,
+		endpoint: Schema.String,
+		method: Schema.String,
+		expected: Schema.Literal("query", "mutation"),
+	},
+) {
+	get message(): string {
+		return `${this.method} endpoint "${this.group}.${this.endpoint}" cannot be called with ${this.expected}`;
+	}
+}
+
+/**
+ * Building the client runtime died with a defect. Typed failures of the
+ * `httpClient` layer are reported as-is instead.
+ *
+ * @since 1.0.0
+ * @category Errors
+ */
+export class RuntimeInitError extends Schema.TaggedError<RuntimeInitError>()(
+	"RuntimeInitError",
+	{
+		client: Schema.String,
+		cause: Schema.Defect,
+	},
+) {
+	get message(): string {
+		return `Failed to build the runtime for "${this.client}"`;
+	}
+}
+
+/**
+ * The request does not match the schemas of the endpoint, found by
+ * `validate` before it was sent. Lists an issue for every invalid field,
+ * with paths starting at `path`, `urlParams`, `payload` or `headers`.
+ *
+ * @since 1.0.0
+ * @category Errors
+ */
+export class ValidationError extends Schema.TaggedError<ValidationError>()(
+	"ValidationError",
+	{
+		group: Schema.String,
+		endpoint: Schema.String,
+		issues: Schema.Array(
+			Schema.Struct({
+				path: Schema.Array(Schema.Union(Schema.String, Schema.Number)),
+				message: Schema.String,
+			}),
+		),
+	},
+) {
+	get message(): string {
+		return `Invalid request to "${this.group}.${this.endpoint}": ${this.issues
+			.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+			.join(", ")}`;
+	}
+}
+
+/**
+ * Errors raised by the bridge itself, present in the error channel of every
+ * call.
+ *
+ * @since 1.0.0
+ * @category Errors
+ */
+export type BridgeError =
+	| BridgeTimeout
+	| EndpointNotFound
+	| MethodMismatch
+	| RuntimeInitError
+	| ValidationError;
@@ -5,17 +5,459 @@ import type * as HttpApi from "@effect/platform/HttpApi";
 import * as HttpApiClient from "@effect/platform/HttpApiClient";
 import type * as HttpApiEndpoint from "@effect/platform/HttpApiEndpoint";
 import type * as HttpApiGroup from "@effect/platform/HttpApiGroup";
-import type * as HttpApiMiddleware from "@effect/platform/HttpApiMiddleware";
-import type * as HttpClient from "@effect/platform/HttpClient";
-import type * as HttpClientError from "@effect/platform/HttpClientError";
+import * as HttpApiMiddleware from "@effect/platform/HttpApiMiddleware";
+import * as HttpApiSchema from "@effect/platform/HttpApiSchema";
+import type * as HttpApiSecurity from "@effect/platform/HttpApiSecurity";
+import * as HttpClient from "@effect/platform/HttpClient";
+import * as HttpClientError from "@effect/platform/HttpClientError";
+import * as HttpClientRequest from "@effect/platform/HttpClientRequest";
+import * as HttpClientResponse from "@effect/platform/HttpClientResponse";
+import * as Cause from "effect/Cause";
 import * as Context from "effect/Context";
+import * as Duration from "effect/Duration";
 import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Equal from "effect/Equal";
+import * as Exit from "effect/Exit";
+import * as FiberId from "effect/FiberId";
+import * as FiberRef from "effect/FiberRef";
+import * as Hash from "effect/Hash";
 import * as Layer from "effect/Layer";
-import type * as ParseResult from "effect/ParseResult";
-import type * as Runtime from "effect/Runtime";
+import * as ManagedRuntime from "effect/ManagedRuntime";
+import * as Option from "effect/Option";
+import * as ParseResult from "effect/ParseResult";
+import * as Redacted from "effect/Redacted";
+import * as Schedule from "effect/Schedule";
+import * as Schema from "effect/Schema";
+import * as AST from "effect/SchemaAST";
 import type { Mutable, NoInfer, Simplify } from "effect/Types";
+import * as BridgeError from "./BridgeError";
+import { ClientKey } from "./internal/clientKey";
+import { serializableHeaders } from "./internal/headers";
+import { requestKey } from "./internal/requestKey";
+import { sha256 } from "./internal/sha256";
+import * as QueryCache from "./QueryCache";
 import * as Result from "./Result";
 
+/**
+ * Options accepted by every `query` and `mutation` call.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface CallOptions {
+	/**
+	 * Interrupts the request when aborted. The call then resolves to a
+	 * `Result.Failure` recognised by `Result.isInterrupted` instead of
+	 * rejecting.
+	 */
+	readonly signal?: AbortSignal | undefined;
+
+	/**
+	 * Fails the call with a `BridgeTimeout` error once the duration has
+	 * elapsed, including any retries.
+	 */
+	readonly timeout?: Duration.DurationInput | undefined;
+
+	/**
+	 * Retries failed requests, either following an Effect `Schedule` or a
+	 * fixed number of attempts with exponential backoff.
+	 */
+	readonly retry?: RetryPolicy | undefined;
+
+	/**
+	 * Extra headers sent with the request, on top of the endpoint's own
+	 * `headers`.
+	 */
+	readonly headers?: Readonly<Record<string, string>> | undefined;
+
+	/**
+	 * Set to `false` to opt a query out of request deduplication.
+	 */
+	readonly dedupe?: boolean | undefined;
+
+	/**
+	 * Overrides how a query is cached, or `false` to bypass the cache.
+	 * Queries are tagged with their group and `group.endpoint` in addition to
+	 * `tags`.
+	 */
+	readonly cache?:
+		| false
+		| {
+				readonly ttl?: Duration.DurationInput | undefined;
+				readonly tags?: ReadonlyArray<string> | undefined;
+		  }
+		| undefined;
+
+	/**
+	 * Cache tags to invalidate once a mutation succeeds, e.g. `"users.list"`.
+	 */
+	readonly invalidates?: ReadonlyArray<string> | undefined;
+
+	/**
+	 * Checks the request with `validate` before sending it, resolving to a
+	 * `ValidationError` instead when it is invalid. Overrides the `validate`
+	 * option of `Tag`.
+	 */
+	readonly validate?: boolean | undefined;
+}
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export type RetryPolicy =
+	| Schedule.Schedule<unknown, unknown>
+	| {
+			readonly times: number;
+			readonly backoff?: Duration.DurationInput | undefined;
+	  };
+
+/**
+ * Options of a client derived with `ApiClient.with`, e.g. to forward the
+ * credentials of the incoming request.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface ClientOptions {
+	/**
+	 * Headers sent with every request. Headers passed to a single call take
+	 * precedence.
+	 */
+	readonly headers?: Readonly<Record<string, string>> | undefined;
+
+	/**
+	 * Replaces the `baseUrl` given to `Tag`.
+	 */
+	readonly baseUrl?: URL | string | undefined;
+
+	/**
+	 * Services provided to every call, e.g. to a `transformClient` reading the
+	 * current user.
+	 */
+	readonly context?: Context.Context<never> | undefined;
+
+	/**
+	 * Credentials for the security schemes of the `HttpApiMiddleware` the API
+	 * declares, keyed by scheme name. Bearer tokens and API keys take a string
+	 * or `Redacted`, basic authentication takes `HttpApiSecurity.Credentials`.
+	 * Schemes without a credential are left alone.
+	 */
+	readonly security?:
+		| Readonly<
+				Record<string, string | Redacted.Redacted | HttpApiSecurity.Credentials>
+		  >
+		| undefined;
+}
+
+/**
+ * The calls available on `ApiClient` and on the clients derived from it with
+ * `ApiClient.with`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface BridgeClient<
+	Self,
+	Groups extends HttpApiGroup.HttpApiGroup.Any,
+	ApiE,
+	E,
+> {
+	/**
+	 * Returns the call to an endpoint as an `Effect` requiring the client,
+	 * to compose with other Effect services.
+	 */
+	readonly effect: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		request: PromiseClient.Request<Endpoint>,
+		options?: Pick<CallOptions, "timeout" | "retry" | "headers">,
+	) => Effect.Effect<
+		PromiseClient.Success<Endpoint>,
+		| PromiseClient.Error<
+				Endpoint,
+				HttpApiGroup.HttpApiGroup.Error<Group>,
+				ApiE
+		  >
+		| BridgeError.EndpointNotFound
+		| BridgeError.BridgeTimeout,
+		Self
+	>;
+
+	/**
+	 * Promise-returning client mirroring `HttpApiClient.Client`, e.g.
+	 * `ApiClient.client.users.get({ path: { id } })`.
+	 */
+	readonly client: PromiseClient<Groups, ApiE, E>;
+
+	/**
+	 * Returns the function calling a non-GET endpoint.
+	 */
+	readonly mutation: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			MutationEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		options?: {
+			readonly invalidates?: ReadonlyArray<string> | undefined;
+		},
+	) => PromiseClient.Method<
+		HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+		HttpApiGroup.HttpApiGroup.Error<Group>,
+		ApiE,
+		E
+	>;
+
+	/**
+	 * Calls a GET or HEAD endpoint.
+	 */
+	readonly query: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			QueryEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		request: PromiseClient.Request<Endpoint>,
+		options?: CallOptions,
+	) => Promise<
+		PromiseClient.Response<
+			Endpoint,
+			HttpApiGroup.HttpApiGroup.Error<Group>,
+			ApiE,
+			E
+		>
+	>;
+
+	/**
+	 * Runs independent calls, given as a record or tuple of
+	 * `[group, endpoint, request, options?]`, and combines them into a single
+	 * result shaped like the input.
+	 */
+	readonly batch: <
+		const Calls extends
+			| Readonly<Record<string, BatchCall<Groups>>>
+			| ReadonlyArray<BatchCall<Groups>>,
+	>(
+		calls: Calls,
+		options?: BatchOptions,
+	) => Promise<
+		Result.With<
+			Result.Success<any, any> | Result.Failure<any, any>,
+			{
+				-readonly [K in keyof Calls]: BatchCall.Success<Groups, Calls[K]>;
+			},
+			| BatchCall.Error<
+					Groups,
+					ApiE,
+					Calls extends ReadonlyArray<infer Call> ? Call : Calls[keyof Calls]
+			  >
+			| E
+			| BridgeError.BridgeError
+		>
+	>;
+
+	/**
+	 * Returns the TanStack Query key of a group, an endpoint or a single call.
+	 * Keys of a group or endpoint prefix the keys of its calls, e.g. to
+	 * invalidate them all.
+	 */
+	readonly queryKey: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>
+		> = never,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+	>(
+		group: GroupName,
+		endpoint?: Name,
+		request?: PromiseClient.Request<
+			HttpApiEndpoint.HttpApiEndpoint.WithName<
+				HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+				Name
+			>
+		>,
+	) => QueryKey;
+
+	/**
+	 * Returns the options of a TanStack Query `useQuery` calling a GET or HEAD
+	 * endpoint.
+	 */
+	readonly queryOptions: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			QueryEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		request: PromiseClient.Request<Endpoint>,
+		options?: Omit<CallOptions, "signal" | "invalidates">,
+	) => QueryOptions<
+		PromiseClient.Success<Endpoint>,
+		| PromiseClient.Error<
+				Endpoint,
+				HttpApiGroup.HttpApiGroup.Error<Group>,
+				ApiE
+		  >
+		| E
+		| BridgeError.BridgeError
+	>;
+
+	/**
+	 * Returns the options of a TanStack Query `useMutation` calling a non-GET
+	 * endpoint.
+	 */
+	readonly mutationOptions: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			MutationEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		options?: {
+			readonly invalidates?: ReadonlyArray<string> | undefined;
+		},
+	) => MutationOptions<
+		PromiseClient.Request<Endpoint>,
+		PromiseClient.Success<Endpoint>,
+		| PromiseClient.Error<
+				Endpoint,
+				HttpApiGroup.HttpApiGroup.Error<Group>,
+				ApiE
+		  >
+		| E
+		| BridgeError.BridgeError
+	>;
+
+	/**
+	 * Returns a server action calling a non-GET endpoint, for React's
+	 * `useActionState`. The action decodes `FormData` or a plain object with
+	 * the endpoint's payload schema and resolves to a JSON-safe
+	 * `ActionState`.
+	 */
+	readonly action: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			MutationEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+		Data = unknown,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		options?: ActionOptions<
+			Omit<PromiseClient.Request<Endpoint>, "payload">,
+			PromiseClient.Success<Endpoint>,
+			Data
+		>,
+	) => (
+		state: ActionState<
+			Data,
+			| PromiseClient.Error<
+					Endpoint,
+					HttpApiGroup.HttpApiGroup.Error<Group>,
+					ApiE
+			  >
+			| E
+			| BridgeError.BridgeError
+		>,
+		input: FormData | Readonly<Record<string, unknown>>,
+	) => Promise<
+		ActionState<
+			Data,
+			| PromiseClient.Error<
+					Endpoint,
+					HttpApiGroup.HttpApiGroup.Error<Group>,
+					ApiE
+			  >
+			| E
+			| BridgeError.BridgeError
+		>
+	>;
+
+	/**
+	 * Returns a client sharing the runtime, cache and request scope of this
+	 * one, whose calls are made with the given headers, base URL, services and
+	 * security credentials.
+	 */
+	readonly with: (
+		options: ClientOptions,
+	) => BridgeClient<Self, Groups, ApiE, E>;
+}
+
 /**
  * @since 1.0.0
  * @category Models
@@ -26,10 +468,12 @@ export interface EffectQueryClient<
 	Groups extends HttpApiGroup.HttpApiGroup.Any,
 	ApiE,
 	E,
+	R = never,
 > extends Context.Tag<
-		Self,
-		Simplify<HttpApiClient.Client<Groups, ApiE, never>>
-	> {
+			Self,
+			Simplify<HttpApiClient.Client<Groups, ApiE, never>>
+		>,
+		BridgeClient<Self, Groups, ApiE, E> {
 	new (
 		_: never,
 	): Context.TagClassShape<
@@ -37,169 +481,1670 @@ export interface EffectQueryClient<
 		Simplify<HttpApiClient.Client<Groups, ApiE, never>>
 	>;
 
-	readonly layer: Layer.Layer<Self, E>;
+	readonly layer: Layer.Layer<Self, E>;
+
+	/**
+	 * Builds the runtime ahead of the first call, e.g. at server startup.
+	 */
+	readonly preload: () => Promise<
+		| Result.Success<void, E | BridgeError.RuntimeInitError>
+		| Result.Failure<void, E | BridgeError.RuntimeInitError>
+	>;
+
+	/**
+	 * Closes the runtime scope, releasing every resource acquired by the
+	 * layer. A later call builds a fresh runtime.
+	 */
+	readonly dispose: () => Promise<void>;
+
+	/**
+	 * Same as `dispose`, for `await using`. Only set where the runtime
+	 * defines `Symbol.asyncDispose`.
+	 */
+	readonly [Symbol.asyncDispose]: () => Promise<void>;
+
+	/**
+	 * The runtime backing every call, including the services of the extra
+	 * `layer` passed to `Tag`.
+	 */
+	readonly runtime: () => ManagedRuntime.ManagedRuntime<Self | R, E>;
+
+	/**
+	 * Runs `f` in a fresh request scope. With `dedupe: true`, identical
+	 * queries made concurrently within the scope share a single request.
+	 */
+	readonly requestScope: <A>(f: () => A) => A;
+
+	/**
+	 * Removes cached queries, either every query carrying one of `tags` or
+	 * the queries of one endpoint, optionally narrowed to a single request.
+	 */
+	readonly invalidate: {
+		(tags: ReadonlyArray<string>): void;
+		<
+			GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+			Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+				QueryEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+			>,
+			Group extends
+				HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+				Groups,
+				GroupName
+			>,
+		>(
+			group: GroupName,
+			endpoint: Name,
+			request?: PromiseClient.Request<
+				HttpApiEndpoint.HttpApiEndpoint.WithName<
+					HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+					Name
+				>
+			>,
+		): void;
+	};
+
+	/**
+	 * The schema of the results of an endpoint, derived from its success and
+	 * error schemas, the errors of its group and API, `HttpClientError`,
+	 * `ParseError` and the bridge errors. Other errors of the client are
+	 * encoded like defects.
+	 */
+	readonly resultSchema: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+	) => Schema.Schema<
+		Result.Result<
+			PromiseClient.Success<Endpoint>,
+			| PromiseClient.Error<
+					Endpoint,
+					HttpApiGroup.HttpApiGroup.Error<Group>,
+					ApiE
+			  >
+			| E
+			| BridgeError.BridgeError
+		>,
+		Result.Encoded<unknown, unknown>
+	>;
+
+	/**
+	 * The schema of the errors declared by an endpoint, its group and the API,
+	 * e.g. for the `errors` option of `Result.toProblemDetails`.
+	 */
+	readonly errorSchema: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+	) => Schema.Schema<
+		Exclude<
+			PromiseClient.Error<
+				Endpoint,
+				HttpApiGroup.HttpApiGroup.Error<Group>,
+				ApiE
+			>,
+			HttpClientError.HttpClientError | ParseResult.ParseError
+		>,
+		unknown
+	>;
+
+	/**
+	 * Checks the `path`, `urlParams`, `payload` and `headers` of a request
+	 * against the endpoint's schemas without sending it. A failure holds a
+	 * `ValidationError` listing the invalid fields.
+	 */
+	readonly validate: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		request: PromiseClient.Request<Endpoint>,
+	) =>
+		| Result.Success<
+				PromiseClient.Request<Endpoint>,
+				BridgeError.ValidationError
+		  >
+		| Result.Failure<
+				PromiseClient.Request<Endpoint>,
+				BridgeError.ValidationError
+		  >;
+
+	/**
+	 * Encodes the result of a call with `resultSchema` into JSON-safe data,
+	 * e.g. to pass it from a server component to a client component.
+	 */
+	readonly serialize: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		result: Result.Result<
+			PromiseClient.Success<Endpoint>,
+			| PromiseClient.Error<
+					Endpoint,
+					HttpApiGroup.HttpApiGroup.Error<Group>,
+					ApiE
+			  >
+			| E
+			| BridgeError.BridgeError
+		>,
+	) => Result.Encoded<unknown, unknown>;
+
+	/**
+	 * Decodes a result encoded by `serialize`. Malformed data resolves to a
+	 * failure with a `ParseError`.
+	 */
+	readonly deserialize: <
+		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>
+		>,
+		Group extends
+			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+			Groups,
+			GroupName
+		>,
+		Endpoint extends
+			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+			Name
+		>,
+	>(
+		group: GroupName,
+		endpoint: Name,
+		encoded: unknown,
+	) => Result.Result<
+		PromiseClient.Success<Endpoint>,
+		| PromiseClient.Error<
+				Endpoint,
+				HttpApiGroup.HttpApiGroup.Error<Group>,
+				ApiE
+		  >
+		| E
+		| BridgeError.BridgeError
+	>;
+}
+
+/**
+ * A TanStack Query key returned by `queryKey`. Keys of equal requests are
+ * `Equal` and share the same `Hash`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface QueryKey extends ReadonlyArray<unknown>, Equal.Equal {}
+
+/**
+ * Options for TanStack Query's `useQuery`, returned by `queryOptions`. A
+ * failed call rejects with its error, or with the squashed `Cause` when it
+ * died or was interrupted.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface QueryOptions<A, E> {
+	readonly queryKey: QueryKey;
+	readonly queryFn: (context: { readonly signal: AbortSignal }) => Promise<A>;
+
+	/**
+	 * Hashes keys the way the client keys its cache, so that requests with
+	 * `bigint`s, `Map`s or `Redacted` values are told apart by TanStack Query.
+	 */
+	readonly queryKeyHashFn: (queryKey: ReadonlyArray<unknown>) => string;
+
+	/**
+	 * Never retries, since typed errors such as a 404 would fail again. Use
+	 * the `retry` call option instead.
+	 */
+	readonly retry: (failureCount: number, error: E) => boolean;
+}
+
+/**
+ * Options for TanStack Query's `useMutation`, returned by `mutationOptions`.
+ * A failed call rejects like in `QueryOptions`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface MutationOptions<Request, A, E> {
+	readonly mutationKey: QueryKey;
+	readonly mutationFn: (request: Request) => Promise<A>;
+	readonly retry: (failureCount: number, error: E) => boolean;
+}
+
+/**
+ * Options of `action`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface ActionOptions<Request, A, Data> {
+	/**
+	 * The path, URL parameters and headers of the call, the payload being
+	 * taken from the action's input.
+	 */
+	readonly request?: Request | undefined;
+
+	/**
+	 * Cache tags to invalidate once the call succeeds.
+	 */
+	readonly invalidates?: ReadonlyArray<string> | undefined;
+
+	/**
+	 * Turns the value of a successful call into the `data` of the state. By
+	 * default the value is encoded with the endpoint's success schema.
+	 */
+	readonly onSuccess?: ((value: A) => Data) | undefined;
+
+	/**
+	 * Hides the fields of errors that aren't the caller's concern, such as
+	 * network, timeout and decode errors, and the cause of defects, keeping
+	 * their `_tag` and a generic message. Defaults to `true`.
+	 */
+	readonly redact?: boolean | undefined;
+}
+
+/**
+ * The JSON-safe state of a server action returned by `action`, starting
+ * from `{ _tag: "Initial" }`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export type ActionState<A, E> =
+	| {
+			readonly _tag: "Initial";
+	  }
+	| {
+			readonly _tag: "Success";
+			readonly data: A;
+	  }
+	| {
+			readonly _tag: "Failure";
+			readonly error: ActionState.Error<E>;
+			readonly issues: ReadonlyArray<ActionState.Issue>;
+	  };
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export declare namespace ActionState {
+	/**
+	 * The error of a failed action: the encoded fields of a tagged error and
+	 * its message. Defects are reported with the `"Defect"` tag. Errors
+	 * redacted by `ActionOptions.redact` only keep their `_tag` and a generic
+	 * message.
+	 *
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export interface Error<E> {
+		readonly _tag: ErrorTag<E> | "Defect";
+		readonly message: string;
+		readonly [field: string]: unknown;
+	}
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type ErrorTag<E> = E extends {
+		readonly _tag: infer Tag extends string;
+	}
+		? Tag
+		: never;
+
+	/**
+	 * An invalid field of the action's input, listed when the input does not
+	 * match the payload schema.
+	 *
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export interface Issue {
+		readonly path: ReadonlyArray<string | number>;
+		readonly message: string;
+	}
+}
+
+/**
+ * HTTP methods of the endpoints accepted by `query`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export type QueryMethod = "GET" | "HEAD";
+
+/**
+ * The endpoints accepted by `query`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export type QueryEndpoints<Endpoints> = Extract<
+	Endpoints,
+	{ readonly method: QueryMethod }
+>;
+
+/**
+ * The endpoints accepted by `mutation`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export type MutationEndpoints<Endpoints> = Exclude<
+	Endpoints,
+	{ readonly method: QueryMethod }
+>;
+
+/**
+ * A client for an `HttpApi` where every endpoint returns
+ * `Promise<Result<A, E>>`. Mirrors the shape of `HttpApiClient.Client`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export type PromiseClient<
+	Groups extends HttpApiGroup.HttpApiGroup.Any,
+	ApiE,
+	E,
+> = Simplify<
+	{
+		readonly [Group in Extract<
+			Groups,
+			{ readonly topLevel: false }
+		> as HttpApiGroup.HttpApiGroup.Name<Group>]: PromiseClient.Group<
+			Group,
+			ApiE,
+			E
+		>;
+	} & {
+		readonly [Method in PromiseClient.TopLevelMethods<
+			Groups,
+			ApiE,
+			E
+		> as Method[0]]: Method[1];
+	}
+>;
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export declare namespace PromiseClient {
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Group<Group extends HttpApiGroup.HttpApiGroup.Any, ApiE, E> = [
+		Group,
+	] extends [
+		HttpApiGroup.HttpApiGroup<
+			infer _GroupName,
+			infer _Endpoints,
+			infer _GroupError,
+			infer _GroupErrorR
+		>,
+	]
+		? {
+				readonly [Endpoint in _Endpoints as HttpApiEndpoint.HttpApiEndpoint.Name<Endpoint>]: Method<
+					Endpoint,
+					_GroupError,
+					ApiE,
+					E
+				>;
+			}
+		: never;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Method<Endpoint, GroupError, ApiE, E> = (
+		request: Request<Endpoint>,
+		options?: CallOptions,
+	) => Promise<Response<Endpoint, GroupError, ApiE, E>>;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Request<Endpoint> = [Endpoint] extends [
+		HttpApiEndpoint.HttpApiEndpoint<
+			infer _Name,
+			infer _Method,
+			infer _Path,
+			infer _UrlParams,
+			infer _Payload,
+			infer _Headers,
+			infer _Success,
+			infer _Error,
+			infer _R,
+			infer _RE
+		>,
+	]
+		? Simplify<
+				HttpApiEndpoint.HttpApiEndpoint.ClientRequest<
+					_Path,
+					_UrlParams,
+					_Payload,
+					_Headers,
+					false
+				>
+			>
+		: never;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Response<Endpoint, GroupError, ApiE, E> = [Endpoint] extends [
+		HttpApiEndpoint.HttpApiEndpoint.Any,
+	]
+		?
+				| Result.Success<
+						Success<Endpoint>,
+						Error<Endpoint, GroupError, ApiE> | E | BridgeError.BridgeError
+				  >
+				| Result.Failure<
+						Success<Endpoint>,
+						Error<Endpoint, GroupError, ApiE> | E | BridgeError.BridgeError
+				  >
+		: never;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Success<Endpoint> = [Endpoint] extends [
+		HttpApiEndpoint.HttpApiEndpoint<
+			infer _Name,
+			infer _Method,
+			infer _Path,
+			infer _UrlParams,
+			infer _Payload,
+			infer _Headers,
+			infer _Success,
+			infer _Error,
+			infer _R,
+			infer _RE
+		>,
+	]
+		? _Success
+		: never;
+
+	/**
+	 * The errors of calling an endpoint, excluding those of the bridge.
+	 *
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Error<Endpoint, GroupError, ApiE> = [Endpoint] extends [
+		HttpApiEndpoint.HttpApiEndpoint<
+			infer _Name,
+			infer _Method,
+			infer _Path,
+			infer _UrlParams,
+			infer _Payload,
+			infer _Headers,
+			infer _Success,
+			infer _Error,
+			infer _R,
+			infer _RE
+		>,
+	]
+		?
+				| _Error
+				| GroupError
+				| ApiE
+				| HttpClientError.HttpClientError
+				| ParseResult.ParseError
+		: never;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type TopLevelMethods<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		ApiE,
+		E,
+	> = Extract<
+		Groups,
+		{ readonly topLevel: true }
+	> extends HttpApiGroup.HttpApiGroup<
+		infer _Id,
+		infer _Endpoints,
+		infer _Error,
+		infer _ErrorR,
+		infer _TopLevel
+	>
+		? _Endpoints extends infer Endpoint
+			? [
+					HttpApiEndpoint.HttpApiEndpoint.Name<Endpoint>,
+					Method<Endpoint, _Error, ApiE, E>,
+				]
+			: never
+		: never;
+}
+
+/**
+ * Options of `batch`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface BatchOptions {
+	/**
+	 * The number of calls running at once. Unbounded by default.
+	 */
+	readonly concurrency?: number | "unbounded" | undefined;
+
+	/**
+	 * Resolves as soon as a call fails, which is the default. With `false`,
+	 * waits for every call and combines the failures into a parallel `Cause`.
+	 */
+	readonly failFast?: boolean | undefined;
+
+	/**
+	 * Whether a failure interrupts the calls still running when failing fast.
+	 * Defaults to `true`; with `false` they complete in the background, e.g.
+	 * to fill the cache.
+	 */
+	readonly interrupt?: boolean | undefined;
+
+	/**
+	 * Interrupts every call of the batch when aborted.
+	 */
+	readonly signal?: AbortSignal | undefined;
+}
+
+/**
+ * A call of `batch`: `[group, endpoint, request, options?]`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export type BatchCall<Groups extends HttpApiGroup.HttpApiGroup.Any> =
+	Groups extends HttpApiGroup.HttpApiGroup<
+		infer _Name,
+		infer _Endpoints,
+		infer _Error,
+		infer _ErrorR,
+		infer _TopLevel
+	>
+		? _Endpoints extends infer Endpoint
+			? readonly [
+					_Name,
+					HttpApiEndpoint.HttpApiEndpoint.Name<Endpoint>,
+					PromiseClient.Request<Endpoint>,
+					CallOptions?,
+				]
+			: never
+		: never;
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export declare namespace BatchCall {
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Endpoint<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		Call,
+	> = Call extends readonly [infer _Group, infer _Name, ...Array<unknown>]
+		? HttpApiEndpoint.HttpApiEndpoint.WithName<
+				HttpApiGroup.HttpApiGroup.EndpointsWithName<Groups, _Group & string>,
+				_Name & string
+			>
+		: never;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Success<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		Call,
+	> = PromiseClient.Success<Endpoint<Groups, Call>>;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Error<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		ApiE,
+		Call,
+	> = Call extends readonly [infer _Group, infer _Name, ...Array<unknown>]
+		? PromiseClient.Error<
+				Endpoint<Groups, Call>,
+				HttpApiGroup.HttpApiGroup.Error<
+					HttpApiGroup.HttpApiGroup.WithName<Groups, _Group & string>
+				>,
+				ApiE
+			>
+		: never;
+}
+
+/**
+ * Hooks into the calls of a client, created with `interceptor`. Interceptors
+ * run in order: `onRequest` before the request is sent, `onResponse` once it
+ * is received and `onError` when the call fails, each receiving the group,
+ * endpoint and request of the call.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface Interceptor<
+	Groups extends HttpApiGroup.HttpApiGroup.Any,
+	ApiE,
+	E,
+> extends Interceptor.Options<Groups, ApiE, Interceptor.Target<Groups>, E> {}
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export declare namespace Interceptor {
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export interface Options<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		ApiE,
+		Targets extends string,
+		E,
+	> {
+		/**
+		 * Groups, e.g. `"users"`, or endpoints, e.g. `"users.get"`, the
+		 * interceptor applies to. Applies to every call when omitted.
+		 */
+		readonly targets?: ReadonlyArray<Targets> | undefined;
+
+		/**
+		 * Updates the request before it is sent, e.g. to sign it.
+		 */
+		readonly onRequest?:
+			| ((
+					call: Call<Groups, Targets> & {
+						readonly httpRequest: HttpClientRequest.HttpClientRequest;
+					},
+			  ) => Effect.Effect<HttpClientRequest.HttpClientRequest, E>)
+			| undefined;
+
+		/**
+		 * Inspects or replaces the response before it is decoded.
+		 */
+		readonly onResponse?:
+			| ((
+					call: Call<Groups, Targets> & {
+						readonly response: HttpClientResponse.HttpClientResponse;
+					},
+			  ) => Effect.Effect<HttpClientResponse.HttpClientResponse, E>)
+			| undefined;
+
+		/**
+		 * Recovers from a failed call, e.g. by refreshing a token and running
+		 * `retry`, or fails with another error. Results recovered here carry
+		 * no response metadata.
+		 */
+		readonly onError?:
+			| ((
+					failure: Failure<Groups, ApiE, Targets>,
+			  ) => Effect.Effect<Success<Groups, Targets>, E>)
+			| undefined;
+	}
+
+	/**
+	 * The groups and endpoints an interceptor can target.
+	 *
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Target<Groups extends HttpApiGroup.HttpApiGroup.Any> =
+		Groups extends HttpApiGroup.HttpApiGroup<
+			infer _Name,
+			infer _Endpoints,
+			infer _Error,
+			infer _ErrorR,
+			infer _TopLevel
+		>
+			? _Name | `${_Name}.${HttpApiEndpoint.HttpApiEndpoint.Name<_Endpoints>}`
+			: never;
+
+	/**
+	 * The calls matching `Targets`.
+	 *
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Call<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		Targets extends string,
+	> = Targeted<Groups, Targets> extends infer T
+		? T extends readonly [infer _Group, infer _Endpoint, infer _Error]
+			? {
+					readonly group: _Group;
+					readonly endpoint: HttpApiEndpoint.HttpApiEndpoint.Name<_Endpoint>;
+					readonly request: PromiseClient.Request<_Endpoint>;
+				}
+			: never
+		: never;
+
+	/**
+	 * The failed calls matching `Targets`, with their error and the effect
+	 * running the call again.
+	 *
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Failure<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		ApiE,
+		Targets extends string,
+	> = Targeted<Groups, Targets> extends infer T
+		? T extends readonly [infer _Group, infer _Endpoint, infer _Error]
+			? {
+					readonly group: _Group;
+					readonly endpoint: HttpApiEndpoint.HttpApiEndpoint.Name<_Endpoint>;
+					readonly request: PromiseClient.Request<_Endpoint>;
+					readonly error: PromiseClient.Error<_Endpoint, _Error, ApiE>;
+					readonly retry: Effect.Effect<
+						PromiseClient.Success<_Endpoint>,
+						PromiseClient.Error<_Endpoint, _Error, ApiE>
+					>;
+				}
+			: never
+		: never;
+
+	/**
+	 * The values of the calls matching `Targets`.
+	 *
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Success<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		Targets extends string,
+	> = Targeted<Groups, Targets> extends infer T
+		? T extends readonly [infer _Group, infer _Endpoint, infer _Error]
+			? PromiseClient.Success<_Endpoint>
+			: never
+		: never;
+
+	/**
+	 * @since 1.0.0
+	 * @category Models
+	 */
+	export type Targeted<
+		Groups extends HttpApiGroup.HttpApiGroup.Any,
+		Targets extends string,
+	> = Groups extends HttpApiGroup.HttpApiGroup<
+		infer _Name,
+		infer _Endpoints,
+		infer _Error,
+		infer _ErrorR,
+		infer _TopLevel
+	>
+		? _Endpoints extends infer Endpoint
+			? _Name extends Targets
+				? readonly [_Name, Endpoint, _Error]
+				: `${_Name}.${HttpApiEndpoint.HttpApiEndpoint.Name<Endpoint>}` extends Targets
+					? readonly [_Name, Endpoint, _Error]
+					: never
+			: never
+		: never;
+}
+
+/**
+ * Header carrying the id generated for each request when `Tag` is given
+ * `sendRequestId: true`. When the server responds with it, its value becomes
+ * the `requestId` of the response metadata.
+ *
+ * @since 1.0.0
+ * @category Constants
+ */
+export const requestIdHeader = "x-request-id";
+
+/**
+ * Carries the current request scope across asynchronous calls, e.g. an
+ * `AsyncLocalStorage` from `node:async_hooks`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface ScopeStorage {
+	readonly run: <A>(store: object, f: () => A) => A;
+	readonly getStore: () => object | undefined;
+}
+
+const currentRequest = FiberRef.unsafeMake<
+	(
+		request: HttpClientRequest.HttpClientRequest,
+	) => HttpClientRequest.HttpClientRequest
+>((request) => request);
+
+const currentBaseUrl = FiberRef.unsafeMake<string | undefined>(undefined);
+
+const withCallRequest = (client: HttpClient.HttpClient) =>
+	HttpClient.mapRequestEffect(client, (request) =>
+		Effect.map(FiberRef.get(currentRequest), (f) => f(request)),
+	);
+
+const withBaseUrl = (
+	client: HttpClient.HttpClient,
+	fallback: URL | string | undefined,
+) =>
+	HttpClient.mapRequestEffect(client, (request) =>
+		Effect.map(
+			FiberRef.get(currentBaseUrl),
+			(baseUrl = fallback?.toString()) =>
+				baseUrl === undefined
+					? request
+					: HttpClientRequest.prependUrl(request, baseUrl),
+		),
+	);
+
+interface InterceptedCall {
+	readonly group: string;
+	readonly endpoint: string;
+	readonly request: unknown;
+}
+
+interface AnyInterceptor {
+	readonly targets?: ReadonlyArray<string> | undefined;
+	readonly onRequest?:
+		| ((
+				call: any,
+		  ) => Effect.Effect<HttpClientRequest.HttpClientRequest, unknown>)
+		| undefined;
+	readonly onResponse?:
+		| ((
+				call: any,
+		  ) => Effect.Effect<HttpClientResponse.HttpClientResponse, unknown>)
+		| undefined;
+	readonly onError?:
+		| ((failure: any) => Effect.Effect<unknown, unknown>)
+		| undefined;
+}
+
+const currentCall = FiberRef.unsafeMake<InterceptedCall | undefined>(undefined);
+
+const intercepts = (interceptor: AnyInterceptor, call: InterceptedCall) =>
+	interceptor.targets === undefined ||
+	interceptor.targets.includes(call.group) ||
+	interceptor.targets.includes(`${call.group}.${call.endpoint}`);
+
+const withInterceptors = (
+	client: HttpClient.HttpClient,
+	interceptors: ReadonlyArray<AnyInterceptor>,
+): HttpClient.HttpClient =>
+	HttpClient.transformResponse(
+		HttpClient.mapRequestEffect(client, (httpRequest) =>
+			Effect.flatMap(FiberRef.get(currentCall), (call) =>
+				Effect.reduce(interceptors, httpRequest, (httpRequest, interceptor) =>
+					call && interceptor.onRequest && intercepts(interceptor, call)
+						? interceptor.onRequest({ ...call, httpRequest })
+						: Effect.succeed(httpRequest),
+				),
+			),
+		),
+		(effect) =>
+			Effect.flatMap(FiberRef.get(currentCall), (call) =>
+				Effect.flatMap(effect, (response) =>
+					Effect.reduce(interceptors, response, (response, interceptor) =>
+						call && interceptor.onResponse && intercepts(interceptor, call)
+							? interceptor.onResponse({ ...call, response })
+							: Effect.succeed(response),
+					),
+				),
+			),
+	) as HttpClient.HttpClient;
+
+const retrySchedule = (
+	policy: RetryPolicy,
+): Schedule.Schedule<unknown, unknown> =>
+	Schedule.isSchedule(policy)
+		? policy
+		: Schedule.intersect(
+				Schedule.exponential(policy.backoff ?? Duration.millis(100)),
+				Schedule.recurs(policy.times),
+			);
+
+const applyCallOptions = <A, E, R>(
+	effect: Effect.Effect<A, E, R>,
+	group: string,
+	endpoint: string,
+	callOptions: CallOptions | undefined,
+): Effect.Effect<A, E | BridgeError.BridgeTimeout, R> => {
+	let result: Effect.Effect<A, E | BridgeError.BridgeTimeout, R> = effect;
+	if (callOptions?.retry !== undefined) {
+		result = Effect.retry(result, retrySchedule(callOptions.retry));
+	}
+	if (callOptions?.timeout !== undefined) {
+		const timeout = Duration.decode(callOptions.timeout);
+		result = Effect.timeoutFail(result, {
+			duration: timeout,
+			onTimeout: () =>
+				new BridgeError.BridgeTimeout({ group, endpoint, timeout }),
+		});
+	}
+	if (callOptions?.headers !== undefined) {
+		const headers = callOptions.headers;
+		result = Effect.locallyWith(
+			result,
+			currentRequest,
+			(f) => (request) => HttpClientRequest.setHeaders(f(request), headers),
+		);
+	}
+	return result;
+};
+
+const isCredentials = (
+	credential: string | Redacted.Redacted | HttpApiSecurity.Credentials,
+): credential is HttpApiSecurity.Credentials =>
+	typeof credential === "object" && !Redacted.isRedacted(credential);
 
-	readonly mutation: <
-		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
-		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
-			HttpApiGroup.HttpApiGroup.Endpoints<Group>
-		>,
-		Group extends
-			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
-			Groups,
-			GroupName
-		>,
-		Endpoint extends
-			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
-			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
-			Name
-		>,
-	>(
-		group: GroupName,
-		endpoint: Name,
-	) => [Endpoint] extends [
-		HttpApiEndpoint.HttpApiEndpoint<
-			infer _Name,
-			infer _Method,
-			infer _Path,
-			infer _UrlParams,
-			infer _Payload,
-			infer _Headers,
-			infer _Success,
-			infer _Error,
-			infer _R,
-			infer _RE
-		>,
-	]
-		? (
-				request: Simplify<
-					HttpApiEndpoint.HttpApiEndpoint.ClientRequest<
-						_Path,
-						_UrlParams,
-						_Payload,
-						_Headers,
-						false
-					>
-				>,
-			) => Promise<
-				Result.Result<
-					_Success,
-					| _Error
-					| HttpApiGroup.HttpApiGroup.Error<Group>
-					| E
-					| HttpClientError.HttpClientError
-					| ParseResult.ParseError
-				>
-			>
-		: never;
+const applySecurity = (
+	request: HttpClientRequest.HttpClientRequest,
+	security: HttpApiSecurity.HttpApiSecurity,
+	credential: string | Redacted.Redacted | HttpApiSecurity.Credentials,
+): HttpClientRequest.HttpClientRequest => {
+	if (security._tag === "Basic" || isCredentials(credential)) {
+		return security._tag === "Basic" && isCredentials(credential)
+			? HttpClientRequest.basicAuth(
+					request,
+					credential.username,
+					credential.password,
+				)
+			: request;
+	}
+	if (security._tag === "Bearer") {
+		return HttpClientRequest.bearerToken(request, credential);
+	}
+	const value = Redacted.isRedacted(credential)
+		? Redacted.value(credential)
+		: credential;
+	switch (security.in) {
+		case "header":
+			return HttpClientRequest.setHeader(request, security.key, value);
+		case "query":
+			return HttpClientRequest.setUrlParam(request, security.key, value);
+		case "cookie": {
+			const cookie = `${security.key}=${encodeURIComponent(value)}`;
+			const existing = request.headers.cookie;
+			return HttpClientRequest.setHeader(
+				request,
+				"cookie",
+				existing ? `${existing}; ${cookie}` : cookie,
+			);
+		}
+	}
+};
 
-	readonly query: <
-		GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
-		Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
-			HttpApiGroup.HttpApiGroup.Endpoints<Group>
-		>,
-		Group extends
-			HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
-			Groups,
-			GroupName
-		>,
-		Endpoint extends
-			HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
-			HttpApiGroup.HttpApiGroup.Endpoints<Group>,
-			Name
-		>,
-	>(
-		group: GroupName,
-		endpoint: Name,
-		request: [Endpoint] extends [
-			HttpApiEndpoint.HttpApiEndpoint<
-				infer _Name,
-				infer _Method,
-				infer _Path,
-				infer _UrlParams,
-				infer _Payload,
-				infer _Headers,
-				infer _Success,
-				infer _Error,
-				infer _R,
-				infer _RE
-			>,
-		]
-			? Simplify<
-					HttpApiEndpoint.HttpApiEndpoint.ClientRequest<
-						_Path,
-						_UrlParams,
-						_Payload,
-						_Headers,
-						false
-					>
-				>
-			: never,
-	) => Promise<
-		Result.Result<
-			[Endpoint] extends [
-				HttpApiEndpoint.HttpApiEndpoint<
-					infer _Name,
-					infer _Method,
-					infer _Path,
-					infer _UrlParams,
-					infer _Payload,
-					infer _Headers,
-					infer _Success,
-					infer _Error,
-					infer _R,
-					infer _RE
-				>,
-			]
-				? _Success
-				: never,
-			| ([Endpoint] extends [
-					HttpApiEndpoint.HttpApiEndpoint<
-						infer _Name,
-						infer _Method,
-						infer _Path,
-						infer _UrlParams,
-						infer _Payload,
-						infer _Headers,
-						infer _Success,
-						infer _Error,
-						infer _R,
-						infer _RE
-					>,
-			  ]
-					? _Error
-					: never)
-			| ([Endpoint] extends [
-					HttpApiEndpoint.HttpApiEndpoint<
-						infer _Name,
-						infer _Method,
-						infer _Path,
-						infer _UrlParams,
-						infer _Payload,
-						infer _Headers,
-						infer _Success,
-						infer _Error,
-						infer _R,
-						infer _RE
-					>,
-			  ]
-					? HttpApiGroup.HttpApiGroup.Error<
-							HttpApiGroup.HttpApiGroup.WithName<Groups, GroupName>
-						>
-					: never)
-			| E
-			| HttpClientError.HttpClientError
-			| ParseResult.ParseError
-		>
+const securitySchemes = (
+	api: HttpApi.HttpApi.Any,
+	group: HttpApiGroup.HttpApiGroup.AnyWithProps,
+	endpoint: HttpApiEndpoint.HttpApiEndpoint.AnyWithProps,
+): ReadonlyArray<readonly [string, HttpApiSecurity.HttpApiSecurity]> =>
+	Array.from(
+		new Set([
+			...(api as HttpApi.HttpApi.AnyWithProps).middlewares,
+			...group.middlewares,
+			...endpoint.middlewares,
+		]),
+	)
+		.filter(HttpApiMiddleware.isSecurity)
+		.flatMap((middleware) => Object.entries(middleware.security));
+
+const applyClientOptions = <A, E, R>(
+	effect: Effect.Effect<A, E, R>,
+	api: HttpApi.HttpApi.Any,
+	group: string,
+	endpoint: string,
+	clientOptions: ClientOptions,
+): Effect.Effect<A, E, R> => {
+	let result = effect;
+	const { context, baseUrl, headers, security } = clientOptions;
+	if (context !== undefined) {
+		result = Effect.mapInputContext(result, (input: Context.Context<R>) =>
+			Context.merge(input, context),
+		);
+	}
+	if (baseUrl !== undefined) {
+		result = Effect.locally(result, currentBaseUrl, baseUrl.toString());
+	}
+	const schemes = Option.match(lookupEndpoint(api, group, endpoint), {
+		onNone: () => [],
+		onSome: (found) =>
+			security ? securitySchemes(api, found.group, found.endpoint) : [],
+	});
+	if (headers !== undefined || schemes.length > 0) {
+		// Applied before the transformations already set, so the headers of a
+		// single call still take precedence.
+		result = Effect.locallyWith(result, currentRequest, (f) => (request) => {
+			let updated = headers
+				? HttpClientRequest.setHeaders(request, headers)
+				: request;
+			for (const [name, scheme] of schemes) {
+				if (security && Object.hasOwn(security, name)) {
+					updated = applySecurity(updated, scheme, security[name]!);
+				}
+			}
+			return f(updated);
+		});
+	}
+	return result;
+};
+
+const mergeClientOptions = (
+	self: ClientOptions,
+	that: ClientOptions,
+): ClientOptions => ({
+	headers:
+		self.headers || that.headers
+			? { ...self.headers, ...that.headers }
+			: undefined,
+	baseUrl: that.baseUrl ?? self.baseUrl,
+	context:
+		self.context && that.context
+			? Context.merge(self.context, that.context)
+			: (that.context ?? self.context),
+	security:
+		self.security || that.security
+			? { ...self.security, ...that.security }
+			: undefined,
+});
+
+const contextIds = new WeakMap<Context.Context<never>, number>();
+let nextContextId = 0;
+let nextClientId = 0;
+
+/**
+ * Identifies the requests made with `clientOptions` in cache and
+ * deduplication keys, without keeping secrets around in plain text.
+ */
+const clientOptionsKey = (clientOptions: ClientOptions): string | undefined => {
+	const { context, baseUrl, headers, security } = clientOptions;
+	if (!context && baseUrl === undefined && !headers && !security) {
+		return undefined;
+	}
+	if (context && !contextIds.has(context)) {
+		contextIds.set(context, nextContextId++);
+	}
+	const key = requestKey({
+		headers,
+		baseUrl: baseUrl?.toString(),
+		context: context && contextIds.get(context),
+		security:
+			security &&
+			Object.fromEntries(
+				Object.entries(security).map(([name, credential]) => [
+					name,
+					isCredentials(credential)
+						? [credential.username, Redacted.value(credential.password)]
+						: Redacted.isRedacted(credential)
+							? Redacted.value(credential)
+							: credential,
+				]),
+			),
+	});
+	return sha256(key);
+};
+
+const scheduleIds = new WeakMap<Schedule.Schedule<unknown, unknown>, number>();
+let nextScheduleId = 0;
+
+/**
+ * Identifies the options that change how a call runs, so that deduplicated
+ * calls only share a request when they time out, retry and validate alike.
+ */
+const runOptionsKey = (
+	timeout: Duration.DurationInput | undefined,
+	retry: RetryPolicy | undefined,
+	validate: boolean,
+): string => {
+	if (Schedule.isSchedule(retry) && !scheduleIds.has(retry)) {
+		scheduleIds.set(retry, nextScheduleId++);
+	}
+	return requestKey({
+		timeout: timeout === undefined ? undefined : Duration.toMillis(timeout),
+		retry: Schedule.isSchedule(retry)
+			? { schedule: scheduleIds.get(retry) }
+			: retry && {
+					times: retry.times,
+					backoff:
+						retry.backoff === undefined
+							? undefined
+							: Duration.toMillis(retry.backoff),
+				},
+		validate,
+	});
+};
+
+interface InFlight {
+	readonly promise: Promise<
+		Result.Success<unknown, unknown> | Result.Failure<unknown, unknown>
 	>;
+	readonly controller: AbortController;
+	waiting: number;
 }
 
+const QueryKeyProto = {
+	[Equal.symbol](this: QueryKey, that: unknown): boolean {
+		return (
+			Array.isArray(that) &&
+			Equal.symbol in that &&
+			requestKey(this) === requestKey(that)
+		);
+	},
+	[Hash.symbol](this: QueryKey): number {
+		return Hash.cached(this, Hash.string(requestKey(this)));
+	},
+};
+
+const makeQueryKey = (values: Array<unknown>): QueryKey =>
+	Object.assign(values, QueryKeyProto);
+
+const getOrReject = <A, E>(
+	result: Result.Success<A, E> | Result.Failure<A, E>,
+): A => {
+	if (Result.isSuccess(result)) {
+		return result.value;
+	}
+	throw Option.getOrElse(Cause.failureOption(result.cause), () =>
+		Cause.squash(result.cause),
+	);
+};
+
+const joinInFlight = (
+	call: InFlight,
+	signal: AbortSignal | undefined,
+	onAbandoned: () => void,
+): Promise<
+	Result.Success<unknown, unknown> | Result.Failure<unknown, unknown>
+> => {
+	call.waiting++;
+	if (!signal) {
+		return call.promise;
+	}
+	return new Promise((resolve) => {
+		const onAbort = () => {
+			// Only interrupt the shared request once every caller has given up.
+			if (--call.waiting === 0) {
+				onAbandoned();
+				call.controller.abort();
+			}
+			resolve(Result.failure(Cause.interrupt(FiberId.none)));
+		};
+		if (signal.aborted) {
+			return onAbort();
+		}
+		signal.addEventListener("abort", onAbort, { once: true });
+		call.promise.then((result) => {
+			signal.removeEventListener("abort", onAbort);
+			resolve(result);
+		});
+	});
+};
+
+// Like `AbortSignal.any`, which is missing before Node 18.17 and 20.3. The
+// returned function stops listening to `signals`.
+const anySignal = (
+	signals: ReadonlyArray<AbortSignal>,
+): readonly [AbortSignal, () => void] => {
+	const controller = new AbortController();
+	const listeners = signals.map((signal) => {
+		const onAbort = () => controller.abort(signal.reason);
+		if (signal.aborted) {
+			onAbort();
+		} else {
+			signal.addEventListener("abort", onAbort, { once: true });
+		}
+		return () => signal.removeEventListener("abort", onAbort);
+	});
+	return [controller.signal, () => listeners.forEach((remove) => remove())];
+};
+
+const isQueryMethod = (method: string): method is QueryMethod =>
+	method === "GET" || method === "HEAD";
+
+const apiGroups = (api: HttpApi.HttpApi.Any) =>
+	(api as HttpApi.HttpApi.AnyWithProps).groups;
+
+const lookupEndpoint = (
+	api: HttpApi.HttpApi.Any,
+	group: string,
+	endpoint: string,
+): Option.Option<{
+	readonly group: HttpApiGroup.HttpApiGroup.AnyWithProps;
+	readonly endpoint: HttpApiEndpoint.HttpApiEndpoint.AnyWithProps;
+}> => {
+	const groups = apiGroups(api);
+	if (!Object.hasOwn(groups, group)) {
+		return Option.none();
+	}
+	const apiGroup = groups[group]!;
+	if (!Object.hasOwn(apiGroup.endpoints, endpoint)) {
+		return Option.none();
+	}
+	return Option.some({
+		group: apiGroup,
+		endpoint: apiGroup.endpoints[endpoint]!,
+	});
+};
+
+// `HttpClientError`s hold the request and response, so only what describes
+// the error is encoded and decoding rebuilds them without a body.
+const RequestErrorSchema = Schema.transform(
+	Schema.Struct({
+		_tag: Schema.Literal("RequestError"),
+		reason: Schema.Literal("Transport", "Encode", "InvalidUrl"),
+		method: Schema.String,
+		url: Schema.String,
+		description: Schema.optional(Schema.String),
+	}),
+	Schema.declare(
+		(u): u is HttpClientError.RequestError =>
+			HttpClientError.isHttpClientError(u) && u._tag === "RequestError",
+	),
+	{
+		strict: true,
+		decode: ({ reason, method, url, description }) =>
+			new HttpClientError.RequestError({
+				reason,
+				request: HttpClientRequest.make(method as any)(url),
+				description,
+			}),
+		encode: (error) => ({
+			_tag: error._tag,
+			reason: error.reason,
+			method: error.request.method,
+			url: error.request.url,
+			description: error.description,
+		}),
+	},
+);
+
+const ResponseErrorSchema = Schema.transform(
+	Schema.Struct({
+		_tag: Schema.Literal("ResponseError"),
+		reason: Schema.Literal("StatusCode", "Decode", "EmptyBody"),
+		method: Schema.String,
+		url: Schema.String,
+		status: Schema.Number,
+		headers: Schema.Record({ key: Schema.String, value: Schema.String }),
+		description: Schema.optional(Schema.String),
+	}),
+	Schema.declare(
+		(u): u is HttpClientError.ResponseError =>
+			HttpClientError.isHttpClientError(u) && u._tag === "ResponseError",
+	),
+	{
+		strict: true,
+		decode: ({ reason, method, url, status, headers, description }) => {
+			const request = HttpClientRequest.make(method as any)(url);
+			return new HttpClientError.ResponseError({
+				reason,
+				request,
+				response: HttpClientResponse.fromWeb(
+					request,
+					new Response(null, { status, headers }),
+				),
+				description,
+			});
+		},
+		encode: (error) => ({
+			_tag: error._tag,
+			reason: error.reason,
+			method: error.request.method,
+			url: error.request.url,
+			status: error.response.status,
+			headers: serializableHeaders(error.response.headers),
+			description: error.description,
+		}),
+	},
+);
+
+const ParseErrorSchema = Schema.transform(
+	Schema.Struct({
+		_tag: Schema.Literal("ParseError"),
+		message: Schema.String,
+	}),
+	Schema.declare(ParseResult.isParseError),
+	{
+		strict: true,
+		decode: ({ message }) =>
+			new ParseResult.ParseError({
+				issue: new ParseResult.Type(Schema.Unknown.ast, undefined, message),
+			}),
+		encode: (error) => ({ _tag: error._tag, message: error.message }),
+	},
+);
+
+const makeErrorSchema = (
+	api: HttpApi.HttpApi.Any,
+	group: string,
+	endpoint: string,
+): Schema.Schema<any, unknown> =>
+	Schema.Union(
+		...Option.match(lookupEndpoint(api, group, endpoint), {
+			onNone: () => [],
+			onSome: ({ group, endpoint }) => [
+				endpoint.errorSchema,
+				group.errorSchema,
+			],
+		}),
+		(api as unknown as HttpApi.HttpApi.AnyWithProps).errorSchema,
+	) as any;
+
+const makeResultSchema = (
+	api: HttpApi.HttpApi.Any,
+	group: string,
+	endpoint: string,
+	errorSchema: Schema.Schema<any, unknown>,
+): Schema.Schema<Result.Result<any, any>, Result.Encoded<unknown, unknown>> =>
+	Result.Schema({
+		success: Option.match(lookupEndpoint(api, group, endpoint), {
+			onNone: () => Schema.Unknown,
+			onSome: ({ endpoint }) => endpoint.successSchema,
+		}),
+		error: Schema.Union(
+			errorSchema,
+			RequestErrorSchema,
+			ResponseErrorSchema,
+			ParseErrorSchema,
+			BridgeError.BridgeTimeout,
+			BridgeError.EndpointNotFound,
+			BridgeError.MethodMismatch,
+			BridgeError.RuntimeInitError,
+			BridgeError.ValidationError,
+			Schema.Defect,
+		),
+	}) as any;
+
+// FormData only holds strings and files, so values are converted to the
+// numbers, booleans and arrays the encoded side of the payload schema
+// expects, the way `HttpApi` parses URL parameters.
+const coerceFormValue = (ast: AST.AST, value: unknown): unknown => {
+	switch (ast._tag) {
+		case "TypeLiteral": {
+			if (typeof value !== "object" || value === null || Array.isArray(value)) {
+				return value;
+			}
+			const object: Record<PropertyKey, unknown> = { ...value };
+			for (const { name, type } of ast.propertySignatures) {
+				if (Object.hasOwn(object, name)) {
+					object[name] = coerceFormValue(type, object[name]);
+				}
+			}
+			return object;
+		}
+		case "TupleType": {
+			const items = Array.isArray(value) ? value : [value];
+			const rest = ast.rest[0]?.type;
+			return items.map((item, i) => {
+				const type = ast.elements[i]?.type ?? rest;
+				return type ? coerceFormValue(type, item) : item;
+			});
+		}
+		case "Union": {
+			if (ast.types.some((member) => acceptsFormValue(member, value))) {
+				return value;
+			}
+			for (const member of ast.types) {
+				const coerced = coerceFormValue(member, value);
+				if (coerced !== value) {
+					return coerced;
+				}
+			}
+			return value;
+		}
+		case "NumberKeyword":
+			return typeof value === "string" &&
+				value.trim() !== "" &&
+				!Number.isNaN(Number(value))
+				? Number(value)
+				: value;
+		case "BooleanKeyword":
+			return value === "true" || value === "on"
+				? true
+				: value === "false"
+					? false
+					: value;
+		case "Literal":
+			return typeof ast.literal !== "string" && String(ast.literal) === value
+				? ast.literal
+				: value;
+		case "Refinement":
+			return coerceFormValue(ast.from, value);
+		case "Suspend":
+			return coerceFormValue(ast.f(), value);
+		default:
+			return value;
+	}
+};
+
+const acceptsFormValue = (ast: AST.AST, value: unknown): boolean =>
+	typeof value === "string" &&
+	(ast._tag === "StringKeyword" ||
+		ast._tag === "TemplateLiteral" ||
+		(ast._tag === "Literal" && ast.literal === value) ||
+		(ast._tag === "Refinement" && acceptsFormValue(ast.from, value)));
+
+// Fields left empty in a form are dropped, so that they read as missing
+// rather than failing to decode, along with the fields Next.js adds to
+// identify the action.
+const formDataToObject = (formData: FormData): Record<string, unknown> => {
+	const object: Record<string, unknown> = {};
+	for (const [key, value] of formData) {
+		if (
+			key.startsWith("$ACTION") ||
+			value === "" ||
+			(typeof value !== "string" && value.size === 0 && value.name === "")
+		) {
+			continue;
+		}
+		const previous = object[key];
+		object[key] = Object.hasOwn(object, key)
+			? Array.isArray(previous)
+				? [...previous, value]
+				: [previous, value]
+			: value;
+	}
+	return object;
+};
+
+const toIssues = (
+	error: ParseResult.ParseError,
+	prefix: ReadonlyArray<string> = [],
+): Array<ActionState.Issue> =>
+	ParseResult.ArrayFormatter.formatErrorSync(error).map((issue) => ({
+		path: [
+			...prefix,
+			...issue.path.map((key) => (typeof key === "number" ? key : String(key))),
+		],
+		message: issue.message,
+	}));
+
+// Encodes each part of the request like `HttpApiClient` would, reporting
+// every invalid field instead of failing on the first.
+const validateRequest = (
+	api: HttpApi.HttpApi.Any,
+	group: string,
+	endpoint: string,
+	request: unknown,
+):
+	| Result.Success<unknown, BridgeError.ValidationError>
+	| Result.Failure<unknown, BridgeError.ValidationError> => {
+	const found = lookupEndpoint(api, group, endpoint);
+	if (Option.isNone(found)) {
+		return Result.success(request);
+	}
+	const { endpoint: apiEndpoint } = found.value;
+	const fields = request as Record<string, unknown> | undefined;
+	const issues: Array<ActionState.Issue> = [];
+	for (const [field, schema] of [
+		["path", apiEndpoint.pathSchema],
+		["urlParams", apiEndpoint.urlParamsSchema],
+		["payload", apiEndpoint.payloadSchema],
+		["headers", apiEndpoint.headersSchema],
+	] as const) {
+		const value = fields?.[field];
+		if (Option.isNone(schema) || value instanceof FormData) {
+			continue;
+		}
+		const encoded = Schema.encodeUnknownEither(schema.value as any, {
+			errors: "all",
+		})(value);
+		if (Either.isLeft(encoded)) {
+			issues.push(...toIssues(encoded.left, [field]));
+		}
+	}
+	return issues.length === 0
+		? Result.success(request)
+		: Result.fail(new BridgeError.ValidationError({ group, endpoint, issues }));
+};
+
+const toActionState = (
+	encoded: Result.Encoded<unknown, unknown>,
+	result: Result.Success<unknown, unknown> | Result.Failure<unknown, unknown>,
+	onSuccess: ((value: unknown) => unknown) | undefined,
+	redact: boolean,
+	errors: Schema.Schema<any, unknown>,
+): ActionState<unknown, any> => {
+	if (Result.isSuccess(result)) {
+		return {
+			_tag: "Success",
+			data:
+				onSuccess === undefined
+					? (encoded as { readonly value: unknown }).value
+					: onSuccess(result.value),
+		};
+	}
+	const problem = Result.toProblemDetails(result, { redact, errors });
+	const message = problem.detail ?? problem.title;
+	const error = Cause.failureOption(result.cause);
+	if (Option.isNone(error)) {
+		return { _tag: "Failure", error: { _tag: "Defect", message }, issues: [] };
+	}
+	const cause = (encoded as { readonly cause: Schema.CauseEncoded<any, any> })
+		.cause;
+	// Only errors declared by the API are shown as is unless `redact` is
+	// turned off, the same way as `Result.toProblemDetails`.
+	const exposed =
+		!redact ||
+		error.value instanceof BridgeError.ValidationError ||
+		Schema.is(errors)(error.value);
+	const fields = cause._tag === "Fail" ? tagged(cause.error) : undefined;
+	const tag = tagged(error.value)?._tag;
+	return {
+		_tag: "Failure",
+		error:
+			exposed && fields
+				? {
+						...fields,
+						message: String(
+							(error.value as { message?: unknown }).message ?? message,
+						),
+					}
+				: { _tag: tag ?? "Defect", message },
+		issues: [],
+	};
+};
+
+const tagged = (u: unknown): { readonly _tag: string } | undefined =>
+	typeof u === "object" &&
+	u !== null &&
+	typeof (u as { _tag?: unknown })._tag === "string"
+		? (u as { readonly _tag: string })
+		: undefined;
+
 declare global {
 	interface ErrorConstructor {
 		stackTraceLimit: number;
 	}
 }
 
+/**
+ * Creates an interceptor for the clients of `api`. Its stages are typed after
+ * the groups and endpoints listed in `targets`.
+ *
+ * @since 1.0.0
+ * @category Constructors
+ */
+export const interceptor = <
+	ApiId extends string,
+	Groups extends HttpApiGroup.HttpApiGroup.Any,
+	ApiE,
+	R,
+	const Targets extends Interceptor.Target<Groups> = Interceptor.Target<Groups>,
+	E = never,
+>(
+	_api: HttpApi.HttpApi<ApiId, Groups, ApiE, R>,
+	options: Interceptor.Options<Groups, ApiE, Targets, E>,
+): Interceptor<Groups, ApiE, E> =>
+	options as unknown as Interceptor<Groups, ApiE, E>;
+
 /**
  * @since 1.0.0
  * @category Constructors
@@ -213,6 +2158,9 @@ export const Tag =
 		ApiE,
 		E,
 		R,
+		LA = never,
+		LE = never,
+		IE = never,
 	>(
 		id: Id,
 		options: {
@@ -228,97 +2176,847 @@ export const Tag =
 			readonly transformClient?:
 				| ((client: HttpClient.HttpClient) => HttpClient.HttpClient)
 				| undefined;
-			readonly transformResponse?:
-				| ((
-						effect: Effect.Effect<unknown, unknown>,
-				  ) => Effect.Effect<unknown, unknown>)
+			/**
+			 * Interceptors created with `interceptor`, run in order on every call
+			 * they target. The errors they fail with are added to the errors of
+			 * the client.
+			 */
+			readonly interceptors?:
+				| ReadonlyArray<Interceptor<NoInfer<Groups>, NoInfer<ApiE>, IE>>
 				| undefined;
 			readonly baseUrl?: URL | string | undefined;
+			/**
+			 * Extra services built into the same runtime as the client, available
+			 * through `ApiClient.runtime()`.
+			 */
+			readonly layer?: Layer.Layer<LA, LE> | undefined;
+			/**
+			 * Runs calls on an existing runtime instead of building one. It must
+			 * provide the client, e.g. by including `ApiClient.layer`. The
+			 * runtime is not disposed by `ApiClient.dispose()`.
+			 */
+			readonly runtime?:
+				| (() => ManagedRuntime.ManagedRuntime<NoInfer<Self>, unknown>)
+				| undefined;
+			/**
+			 * Coalesces identical in-flight queries, keyed by group, endpoint,
+			 * request and extra headers. Deduplication only happens within a
+			 * request scope so results never leak between users: `true` uses
+			 * `ApiClient.requestScope`, while `scope` can return any per-request
+			 * object, e.g. React's `cache(() => ({}))`.
+			 */
+			readonly dedupe?:
+				| boolean
+				| { readonly scope: () => object | undefined }
+				| undefined;
+			/**
+			 * Storage backing `ApiClient.requestScope`, typically
+			 * `new AsyncLocalStorage()` passed from server code. Defaults to the
+			 * global `AsyncLocalStorage` where the runtime provides one, e.g. in
+			 * Next.js. Without storage, `requestScope` runs `f` unscoped and
+			 * `dedupe: true` doesn't deduplicate.
+			 */
+			readonly scopeStorage?: ScopeStorage | undefined;
+			/**
+			 * Caches successful queries for `ttl` (1 minute by default) in
+			 * `store` (an in-memory LRU by default). The cache is shared by every
+			 * caller of the client.
+			 */
+			readonly cache?:
+				| {
+						readonly store?: QueryCache.Store | undefined;
+						readonly ttl?: Duration.DurationInput | undefined;
+				  }
+				| undefined;
+			/**
+			 * Remembers the last successful result of every query and attaches
+			 * it to later failures of the same query as `previousSuccess`.
+			 */
+			readonly staleOnError?: boolean | undefined;
+			/**
+			 * Checks every request with `validate` before sending it, unless a
+			 * call opts out with `validate: false`.
+			 */
+			readonly validate?: boolean | undefined;
+			/**
+			 * Generates an id for each request and sends it in the `x-request-id`
+			 * header. Off by default since browsers preflight requests carrying
+			 * custom headers.
+			 */
+			readonly sendRequestId?: boolean | undefined;
+			/**
+			 * Backoff between attempts to rebuild the runtime after the layer
+			 * failed to build. Calls made while backing off resolve to the last
+			 * build failure. Doubles on each consecutive failure, up to
+			 * `maxBackoff` (30 seconds by default).
+			 */
+			readonly runtimeRetry?:
+				| {
+						readonly backoff?: Duration.DurationInput | undefined;
+						readonly maxBackoff?: Duration.DurationInput | undefined;
+				  }
+				| undefined;
 		},
-	): EffectQueryClient<Self, Id, Groups, ApiE, E> => {
-		const self: Mutable<EffectQueryClient<Self, Id, Groups, ApiE, E>> =
+	): EffectQueryClient<Self, Id, Groups, ApiE | IE, E | LE, LA> => {
+		const self: Mutable<EffectQueryClient<Self, Id, Groups, ApiE, E | LE, LA>> =
 			Context.Tag(id)<Self, HttpApiClient.Client<Groups, E, R>>() as any;
+		const interceptors = (options.interceptors ??
+			[]) as ReadonlyArray<AnyInterceptor>;
 
 		self.layer = Layer.scoped(
 			self,
-			HttpApiClient.make(options.api, options),
+			HttpApiClient.make(options.api, {
+				...options,
+				// The base URL is prepended last, as `HttpApiClient` would, so it
+				// can be replaced by clients derived with `with`.
+				baseUrl: undefined,
+				transformClient: (client) =>
+					withInterceptors(
+						withBaseUrl(
+							options.transformClient
+								? options.transformClient(withCallRequest(client))
+								: withCallRequest(client),
+							options.baseUrl,
+						),
+						interceptors,
+					),
+			}),
 		).pipe(Layer.provide(options.httpClient)) as Layer.Layer<Self, E>;
 
-		let runtimePromise: Promise<Runtime.Runtime<Self>> | undefined;
-		const getRuntime = () => {
-			if (!runtimePromise) {
-				runtimePromise = Layer.toRuntime(self.layer).pipe(
-					Effect.scoped,
-					Effect.runPromise,
+		const backoff = Duration.decode(options.runtimeRetry?.backoff ?? 0);
+		const maxBackoff = Duration.decode(
+			options.runtimeRetry?.maxBackoff ?? Duration.seconds(30),
+		);
+
+		let runtime: ManagedRuntime.ManagedRuntime<Self | LA, E | LE> | undefined;
+		const currentRuntime = (): ManagedRuntime.ManagedRuntime<
+			Self | LA,
+			E | LE
+		> => {
+			if (!runtime) {
+				runtime = options.runtime
+					? (options.runtime() as ManagedRuntime.ManagedRuntime<
+							Self | LA,
+							E | LE
+						>)
+					: ManagedRuntime.make(
+							(options.layer
+								? Layer.merge(self.layer, options.layer)
+								: self.layer) as Layer.Layer<Self | LA, E | LE>,
+						);
+			}
+			return runtime;
+		};
+		self.runtime = currentRuntime;
+
+		let buildFailure:
+			| {
+					readonly exit: Exit.Exit<
+						never,
+						E | LE | BridgeError.RuntimeInitError
+					>;
+					readonly attempts: number;
+					readonly retryAt: number;
+			  }
+			| undefined;
+
+		const getRuntime = async (): Promise<
+			Exit.Exit<
+				ManagedRuntime.ManagedRuntime<Self | LA, E | LE>,
+				E | LE | BridgeError.RuntimeInitError
+			>
+		> => {
+			if (buildFailure && Date.now() < buildFailure.retryAt) {
+				return buildFailure.exit;
+			}
+			const current = currentRuntime();
+			const exit = await current.runPromiseExit(Effect.void).then(
+				(exit): Exit.Exit<void, E | LE | BridgeError.RuntimeInitError> =>
+					Exit.isFailure(exit) &&
+					Option.isNone(Cause.failureOption(exit.cause)) &&
+					!Cause.isInterruptedOnly(exit.cause)
+						? Exit.fail(
+								new BridgeError.RuntimeInitError({
+									client: id,
+									cause: Cause.squash(exit.cause),
+								}),
+							)
+						: exit,
+			);
+			if (Exit.isSuccess(exit)) {
+				buildFailure = undefined;
+				return Exit.succeed(current);
+			}
+			// ManagedRuntime caches a failed build, so drop it and let a later
+			// call build a fresh one once the backoff has elapsed.
+			if (runtime === current) {
+				runtime = undefined;
+				const attempts = (buildFailure?.attempts ?? 0) + 1;
+				const delay = Duration.min(
+					Duration.times(backoff, 2 ** (attempts - 1)),
+					maxBackoff,
 				);
+				buildFailure = {
+					exit: exit as Exit.Exit<never, E | LE | BridgeError.RuntimeInitError>,
+					attempts,
+					retryAt: Date.now() + Duration.toMillis(delay),
+				};
+				if (!options.runtime) {
+					await current.dispose();
+				}
+			}
+			return exit as Exit.Exit<never, E | LE | BridgeError.RuntimeInitError>;
+		};
+
+		self.preload = () =>
+			getRuntime().then((exit) => Result.fromExit(Exit.asVoid(exit)));
+
+		self.dispose = async () => {
+			const current = runtime;
+			runtime = undefined;
+			buildFailure = undefined;
+			if (!options.runtime) {
+				await current?.dispose();
 			}
-			return runtimePromise;
 		};
+		// `Symbol.asyncDispose` is missing before Node 18.18 and 20.4.
+		if (typeof Symbol.asyncDispose === "symbol") {
+			self[Symbol.asyncDispose] = self.dispose;
+		}
 
-		self.mutation = ((group: string, endpoint: string) => {
-			return async (request: unknown) => {
-				const runtime = await getRuntime();
-				const effect = Effect.gen(function* () {
-					const client = (yield* self) as Record<
+		const resolveHandler = (
+			client: unknown,
+			group: string,
+			endpoint: string,
+		): Effect.Effect<
+			(request: unknown) => Effect.Effect<unknown, unknown>,
+			BridgeError.EndpointNotFound
+		> =>
+			Option.match(lookupEndpoint(options.api, group, endpoint), {
+				onNone: () =>
+					Effect.fail(new BridgeError.EndpointNotFound({ group, endpoint })),
+				onSome: ({ group: apiGroup }) => {
+					const handlers = (
+						apiGroup.topLevel
+							? client
+							: (client as Record<string, unknown>)[group]
+					) as Record<
 						string,
-						Record<string, (req: unknown) => Effect.Effect<unknown>>
+						(request: unknown) => Effect.Effect<unknown, unknown>
 					>;
-					const groupHandlers = client[group];
-					if (!groupHandlers) {
-						throw new Error(`Group "${group}" not found`);
-					}
-					const endpointHandler = groupHandlers[endpoint];
-					if (!endpointHandler) {
-						throw new Error(
-							`Endpoint "${endpoint}" not found in group "${group}"`,
-						);
+					return Effect.succeed(handlers[endpoint]!);
+				},
+			});
+
+		const callEndpoint = (
+			group: string,
+			endpoint: string,
+			request: unknown,
+			clientOptions: ClientOptions,
+			withResponse = false,
+		) => {
+			const call: InterceptedCall = { group, endpoint, request };
+			const effect = Effect.flatMap(self, (client) =>
+				Effect.flatMap(resolveHandler(client, group, endpoint), (handler) => {
+					const retry = handler({
+						...(request as object),
+						withResponse: false,
+					});
+					return interceptors.reduce(
+						(effect, interceptor) =>
+							interceptor.onError && intercepts(interceptor, call)
+								? Effect.catchAll(effect, (error) =>
+										Effect.map(
+											interceptor.onError!({ ...call, error, retry }),
+											(value) => (withResponse ? [value, undefined] : value),
+										),
+									)
+								: effect,
+						handler({ ...(request as object), withResponse }),
+					);
+				}),
+			);
+			return applyClientOptions(
+				Effect.locally(effect, currentCall, call),
+				options.api,
+				group,
+				endpoint,
+				clientOptions,
+			);
+		};
+
+		// Created on first use so that building a client doesn't require
+		// `AsyncLocalStorage`, which browsers lack.
+		let scopeStorage: ScopeStorage | null | undefined;
+		const getScopeStorage = () => {
+			if (scopeStorage === undefined) {
+				const AsyncLocalStorage = (globalThis as any).AsyncLocalStorage;
+				scopeStorage =
+					options.scopeStorage ??
+					(AsyncLocalStorage ? new AsyncLocalStorage() : null);
+			}
+			return scopeStorage ?? undefined;
+		};
+		self.requestScope = (f) => {
+			const storage = getScopeStorage();
+			return storage ? storage.run({}, f) : f();
+		};
+
+		const dedupeScope =
+			options.dedupe === true
+				? () => getScopeStorage()?.getStore()
+				: options.dedupe
+					? options.dedupe.scope
+					: undefined;
+		const inFlight = new WeakMap<object, Map<string, InFlight>>();
+		const clientId = nextClientId++;
+
+		const cacheStore = options.cache
+			? (options.cache.store ?? QueryCache.memory())
+			: undefined;
+		const cacheTtl = Duration.decode(options.cache?.ttl ?? Duration.minutes(1));
+
+		const lastSuccesses = options.staleOnError
+			? QueryCache.memory()
+			: undefined;
+
+		self.invalidate = ((
+			tagsOrGroup: ReadonlyArray<string> | string,
+			endpoint?: string,
+			request?: unknown,
+		) => {
+			if (!cacheStore) {
+				return;
+			}
+			if (typeof tagsOrGroup !== "string") {
+				return QueryCache.invalidate(cacheStore, tagsOrGroup);
+			}
+			if (request === undefined) {
+				return QueryCache.invalidate(cacheStore, [
+					`${tagsOrGroup}.${endpoint}`,
+				]);
+			}
+			// Cache keys end with the extra headers of the call and the options of
+			// the derived client, so match every key sharing the group, endpoint
+			// and request.
+			const prefix = requestKey([tagsOrGroup, endpoint, request]).slice(0, -1);
+			for (const [key] of Array.from(cacheStore.entries())) {
+				if (key.startsWith(prefix)) {
+					cacheStore.delete(key);
+				}
+			}
+		}) as EffectQueryClient<Self, Id, Groups, ApiE, E>["invalidate"];
+
+		const errorSchemas = new Map<string, Schema.Schema<any, unknown>>();
+		const errorSchema = (group: string, endpoint: string) => {
+			const key = `${group}.${endpoint}`;
+			let schema = errorSchemas.get(key);
+			if (!schema) {
+				schema = makeErrorSchema(options.api, group, endpoint);
+				errorSchemas.set(key, schema);
+			}
+			return schema;
+		};
+		self.errorSchema = errorSchema as any;
+
+		const resultSchemas = new Map<
+			string,
+			Schema.Schema<Result.Result<any, any>, Result.Encoded<unknown, unknown>>
+		>();
+		const resultSchema = (group: string, endpoint: string) => {
+			const key = `${group}.${endpoint}`;
+			let schema = resultSchemas.get(key);
+			if (!schema) {
+				schema = makeResultSchema(
+					options.api,
+					group,
+					endpoint,
+					errorSchema(group, endpoint),
+				);
+				resultSchemas.set(key, schema);
+			}
+			return schema;
+		};
+		self.resultSchema = resultSchema as any;
+		self.validate = ((group: string, endpoint: string, request: unknown) =>
+			validateRequest(options.api, group, endpoint, request)) as any;
+		self.serialize = ((
+			group: string,
+			endpoint: string,
+			result: Result.Result<any, any>,
+		) => Schema.encodeSync(resultSchema(group, endpoint))(result)) as any;
+		self.deserialize = ((group: string, endpoint: string, encoded: unknown) =>
+			Either.getOrElse(
+				Schema.decodeUnknownEither(resultSchema(group, endpoint))(encoded),
+				Result.fail,
+			)) as any;
+
+		const derive = (
+			clientOptions: ClientOptions,
+		): BridgeClient<Self, Groups, ApiE, E | LE> => {
+			const optionsKey = clientOptionsKey(clientOptions);
+
+			const effect = ((
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions?: CallOptions,
+			) =>
+				applyCallOptions(
+					callEndpoint(group, endpoint, request, clientOptions),
+					group,
+					endpoint,
+					callOptions,
+				)) as any;
+
+			const run = async (
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions: CallOptions | undefined,
+			) => {
+				if (callOptions?.validate ?? options.validate) {
+					const validated = validateRequest(
+						options.api,
+						group,
+						endpoint,
+						request,
+					);
+					if (Result.isFailure(validated)) {
+						return validated as Result.Failure<unknown, unknown>;
 					}
-					return yield* endpointHandler(request);
+				}
+				const requestId = options.sendRequestId
+					? globalThis.crypto.randomUUID()
+					: undefined;
+				const effect = callEndpoint(
+					group,
+					endpoint,
+					request,
+					clientOptions,
+					true,
+				) as Effect.Effect<
+					readonly [unknown, HttpClientResponse.HttpClientResponse | undefined],
+					unknown,
+					Self
+				>;
+
+				const built = await getRuntime();
+				if (Exit.isFailure(built)) {
+					return Result.failure(built.cause);
+				}
+				const exit = await built.value.runPromiseExit(
+					applyCallOptions(effect, group, endpoint, {
+						...callOptions,
+						headers: requestId
+							? { [requestIdHeader]: requestId, ...callOptions?.headers }
+							: callOptions?.headers,
+					}).pipe(Effect.timed),
+					{ signal: callOptions?.signal },
+				);
+				if (Exit.isFailure(exit)) {
+					return Result.failure(exit.cause);
+				}
+
+				const [duration, [value, response]] = exit.value;
+				return Result.success(value, {
+					metadata: Option.map(Option.fromNullable(response), (response) => ({
+						status: response.status,
+						headers: { ...response.headers },
+						duration,
+						requestId: Option.fromNullable(
+							response.headers[requestIdHeader] ?? requestId,
+						),
+					})),
 				});
+			};
 
-				const exit = await Effect.runPromiseExit(
-					effect.pipe(Effect.provide(runtime)),
+			const runDeduped = (
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions: CallOptions | undefined,
+				key: string,
+			) => {
+				const scope =
+					callOptions?.dedupe === false ? undefined : dedupeScope?.();
+				if (scope === undefined) {
+					return run(group, endpoint, request, callOptions);
+				}
+				let calls = inFlight.get(scope);
+				if (!calls) {
+					calls = new Map();
+					inFlight.set(scope, calls);
+				}
+				const callKey =
+					key +
+					runOptionsKey(
+						callOptions?.timeout,
+						callOptions?.retry,
+						callOptions?.validate ?? options.validate ?? false,
+					);
+				const release = (call: InFlight) => {
+					if (calls.get(callKey) === call) {
+						calls.delete(callKey);
+					}
+				};
+				let call = calls.get(callKey);
+				if (!call) {
+					const controller = new AbortController();
+					const created: InFlight = {
+						promise: run(group, endpoint, request, {
+							...callOptions,
+							signal: controller.signal,
+						}),
+						controller,
+						waiting: 0,
+					};
+					created.promise.then(() => release(created));
+					calls.set(callKey, created);
+					call = created;
+				}
+				const joined = call;
+				return joinInFlight(joined, callOptions?.signal, () => release(joined));
+			};
+
+			const runCached = async (
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions: CallOptions | undefined,
+				key: string,
+			) => {
+				if (!cacheStore || callOptions?.cache === false) {
+					return runDeduped(group, endpoint, request, callOptions, key);
+				}
+				const entry = cacheStore.get(key);
+				if (entry && QueryCache.isFresh(entry)) {
+					return entry.result;
+				}
+				const result = await runDeduped(
+					group,
+					endpoint,
+					request,
+					callOptions,
+					key,
 				);
+				if (Result.isSuccess(result)) {
+					cacheStore.set(key, {
+						result,
+						tags: [
+							group,
+							`${group}.${endpoint}`,
+							...(callOptions?.cache?.tags ?? []),
+						],
+						ttl: Duration.toMillis(callOptions?.cache?.ttl ?? cacheTtl),
+					});
+				}
+				return result;
+			};
 
-				return Result.fromExit(exit);
+			const runStale = async (
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions: CallOptions | undefined,
+			) => {
+				if (!dedupeScope && !cacheStore && !lastSuccesses) {
+					return run(group, endpoint, request, callOptions);
+				}
+				let key: string;
+				try {
+					// The extra headers of a call may carry credentials, so they are
+					// hashed like the options of derived clients.
+					key = requestKey([
+						group,
+						endpoint,
+						request,
+						callOptions?.headers && sha256(requestKey(callOptions.headers)),
+						optionsKey,
+					]);
+				} catch (error) {
+					return Result.failure<unknown, unknown>(Cause.die(error));
+				}
+				const result = await runCached(
+					group,
+					endpoint,
+					request,
+					callOptions,
+					key,
+				);
+				if (!lastSuccesses) {
+					return result;
+				}
+				if (Result.isSuccess(result)) {
+					lastSuccesses.set(key, { result, tags: [], ttl: Infinity });
+					return result;
+				}
+				const previous = lastSuccesses.get(key);
+				return previous
+					? Result.failure(result.cause, {
+							previousSuccess: Option.some(previous.result),
+						})
+					: result;
 			};
-		}) as any;
 
-		self.query = (async (
-			group: string,
-			endpoint: string,
-			request: {
-				readonly path?: unknown;
-				readonly urlParams?: unknown;
-				readonly payload?: unknown;
-				readonly headers?: unknown;
-			},
-		) => {
-			const runtime = await getRuntime();
-			const effect = Effect.gen(function* () {
-				const client = (yield* self) as Record<
-					string,
-					Record<string, (req: unknown) => Effect.Effect<unknown>>
-				>;
-				const groupHandlers = client[group];
-				if (!groupHandlers) {
-					throw new Error(`Group "${group}" not found`);
+			const runInvalidating = async (
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions: CallOptions | undefined,
+			) => {
+				const result = await run(group, endpoint, request, callOptions);
+				if (
+					cacheStore &&
+					callOptions?.invalidates &&
+					Result.isSuccess(result)
+				) {
+					QueryCache.invalidate(cacheStore, callOptions.invalidates);
 				}
-				const endpointHandler = groupHandlers[endpoint];
-				if (!endpointHandler) {
-					throw new Error(
-						`Endpoint "${endpoint}" not found in group "${group}"`,
+				return result;
+			};
+
+			const client: Record<string, any> = {};
+			for (const apiGroup of Object.values(apiGroups(options.api))) {
+				const methods: Record<string, unknown> = apiGroup.topLevel
+					? client
+					: (client[apiGroup.identifier] = {});
+				for (const [name, apiEndpoint] of Object.entries(apiGroup.endpoints)) {
+					const call = isQueryMethod(apiEndpoint.method)
+						? runStale
+						: runInvalidating;
+					methods[name] = (request: unknown, callOptions?: CallOptions) =>
+						call(apiGroup.identifier, name, request, callOptions);
+				}
+			}
+
+			const method = (
+				group: string,
+				endpoint: string,
+				kind?: "query" | "mutation",
+			): ((
+				request: unknown,
+				callOptions?: CallOptions,
+			) => Promise<
+				Result.Success<unknown, unknown> | Result.Failure<unknown, unknown>
+			>) =>
+				Option.match(lookupEndpoint(options.api, group, endpoint), {
+					onNone: () => (request, callOptions) =>
+						run(group, endpoint, request, callOptions),
+					onSome: ({ group: apiGroup, endpoint: apiEndpoint }) =>
+						kind === undefined ||
+						isQueryMethod(apiEndpoint.method) === (kind === "query")
+							? (apiGroup.topLevel ? client : client[group])[endpoint]
+							: () =>
+									Promise.resolve(
+										Result.fail(
+											new BridgeError.MethodMismatch({
+												group,
+												endpoint,
+												method: apiEndpoint.method,
+												expected: kind,
+											}),
+										),
+									),
+				});
+
+			const mutation = ((
+				group: string,
+				endpoint: string,
+				mutationOptions?: { readonly invalidates?: ReadonlyArray<string> },
+			) => {
+				const call = method(group, endpoint, "mutation");
+				return mutationOptions?.invalidates
+					? (request: unknown, callOptions?: CallOptions) =>
+							call(request, {
+								...callOptions,
+								invalidates: [
+									...mutationOptions.invalidates!,
+									...(callOptions?.invalidates ?? []),
+								],
+							})
+					: call;
+			}) as any;
+
+			const query = ((
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions?: CallOptions,
+			) => method(group, endpoint, "query")(request, callOptions)) as any;
+
+			const batch = async (
+				calls:
+					| Readonly<Record<string, BatchCall<Groups>>>
+					| ReadonlyArray<BatchCall<Groups>>,
+				batchOptions?: BatchOptions,
+			) => {
+				const entries = Object.entries(calls) as Array<
+					[string, readonly [string, string, unknown, CallOptions?]]
+				>;
+				const failFast = batchOptions?.failFast ?? true;
+				const interrupt = batchOptions?.interrupt ?? true;
+				const exit = await Effect.runPromiseExit(
+					Effect.forEach(
+						entries,
+						([, [group, endpoint, request, callOptions]]) =>
+							Effect.flatMap(
+								Effect.promise((signal) => {
+									// Without `interrupt`, only the batch's own signal stops
+									// the calls left running after a failure.
+									const signals = [
+										interrupt ? signal : batchOptions?.signal,
+										callOptions?.signal,
+									].filter((signal) => signal !== undefined);
+									const [combined, release] = anySignal(signals);
+									return method(group, endpoint)(request, {
+										...callOptions,
+										signal: combined,
+									}).finally(release);
+								}),
+								(result) =>
+									failFast && Result.isFailure(result)
+										? Effect.fail(result)
+										: Effect.succeed(result),
+							),
+						{ concurrency: batchOptions?.concurrency ?? "unbounded" },
+					),
+					{ signal: batchOptions?.signal },
+				);
+				if (Exit.isFailure(exit)) {
+					return Option.getOrElse(Cause.failureOption(exit.cause), () =>
+						Result.failure(exit.cause),
 					);
 				}
-				return yield* endpointHandler(request);
-			});
+				return Result.allSettled(
+					Array.isArray(calls)
+						? exit.value
+						: Object.fromEntries(
+								entries.map(([key], index) => [key, exit.value[index]]),
+							),
+				);
+			};
 
-			const exit = await Effect.runPromiseExit(
-				effect.pipe(Effect.provide(runtime)),
-			);
+			// Only the keys of calls carry the client options, so that a group or
+			// endpoint key prefixes the keys of its calls.
+			const queryKey = (group: string, endpoint?: string, request?: unknown) =>
+				makeQueryKey(
+					endpoint === undefined
+						? [group]
+						: request === undefined
+							? [group, endpoint]
+							: optionsKey === undefined
+								? [group, endpoint, request]
+								: [group, endpoint, request, optionsKey],
+				);
+
+			const queryOptions = ((
+				group: string,
+				endpoint: string,
+				request: unknown,
+				callOptions?: CallOptions,
+			) => ({
+				queryKey: queryKey(group, endpoint, request),
+				queryFn: ({ signal }: { readonly signal: AbortSignal }) =>
+					query(group, endpoint, request, { ...callOptions, signal }).then(
+						getOrReject,
+					),
+				queryKeyHashFn: requestKey,
+				retry: () => false,
+			})) as any;
+
+			const mutationOptions = ((
+				group: string,
+				endpoint: string,
+				mutationOptions?: { readonly invalidates?: ReadonlyArray<string> },
+			) => {
+				const call = mutation(group, endpoint, mutationOptions);
+				return {
+					mutationKey: queryKey(group, endpoint),
+					mutationFn: (request: unknown) => call(request).then(getOrReject),
+					retry: () => false,
+				};
+			}) as any;
+
+			const action = ((
+				group: string,
+				endpoint: string,
+				actionOptions?: ActionOptions<
+					Readonly<Record<string, unknown>>,
+					unknown,
+					unknown
+				>,
+			) => {
+				const call = mutation(group, endpoint, {
+					invalidates: actionOptions?.invalidates,
+				});
+				const payloadSchema = Option.flatMap(
+					lookupEndpoint(options.api, group, endpoint),
+					({ endpoint }) => endpoint.payloadSchema,
+				);
+				return async (
+					_: ActionState<unknown, any>,
+					input: FormData | Readonly<Record<string, unknown>>,
+				): Promise<ActionState<unknown, any>> => {
+					let payload: unknown;
+					if (Option.isSome(payloadSchema)) {
+						const schema = payloadSchema.value;
+						if (
+							input instanceof FormData &&
+							HttpApiSchema.getMultipart(schema.ast) !== undefined
+						) {
+							payload = input;
+						} else {
+							const decoded = Schema.decodeUnknownEither(schema as any, {
+								errors: "all",
+							})(
+								input instanceof FormData
+									? coerceFormValue(
+											AST.encodedAST(schema.ast),
+											formDataToObject(input),
+										)
+									: input,
+							);
+							if (Either.isLeft(decoded)) {
+								return {
+									_tag: "Failure",
+									error: {
+										_tag: "ParseError",
+										message: decoded.left.message,
+									},
+									issues: toIssues(decoded.left),
+								};
+							}
+							payload = decoded.right;
+						}
+					}
+					const result = await call({ ...actionOptions?.request, payload });
+					return toActionState(
+						Schema.encodeSync(resultSchema(group, endpoint))(result),
+						result,
+						actionOptions?.onSuccess,
+						actionOptions?.redact ?? true,
+						errorSchema(group, endpoint),
+					);
+				};
+			}) as any;
+
+			return {
+				action,
+				effect,
+				batch: batch as any,
+				client: client as PromiseClient<Groups, ApiE, E | LE>,
+				mutation,
+				mutationOptions,
+				query,
+				queryKey: queryKey as any,
+				queryOptions,
+				with: (next) => derive(mergeClientOptions(clientOptions, next)),
+				[ClientKey]: requestKey([clientId, optionsKey]),
+			} as BridgeClient<Self, Groups, ApiE, E | LE>;
+		};
 
-			return Result.fromExit(exit);
-		}) as any;
+		Object.assign(self, derive({}));
 
-		return self as EffectQueryClient<Self, Id, Groups, ApiE, E>;
+		return self as EffectQueryClient<Self, Id, Groups, ApiE | IE, E | LE, LA>;
 	};
@@ -0,0 +1,91 @@
+/**
+ * @since 1.0.0
+ */
+import type * as Result from "./Result";
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export interface Entry {
+	readonly result: Result.Success<unknown, unknown>;
+	readonly tags: ReadonlyArray<string>;
+	/**
+	 * Time to live in milliseconds, counted from `result.timestamp`.
+	 */
+	readonly ttl: number;
+}
+
+/**
+ * Storage backing the query cache. Keys are derived from the group,
+ * endpoint and request of each query.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface Store {
+	readonly get: (key: string) => Entry | undefined;
+	readonly set: (key: string, entry: Entry) => void;
+	readonly delete: (key: string) => void;
+	readonly entries: () => Iterable<readonly [string, Entry]>;
+}
+
+/**
+ * An in-memory store evicting the least recently used entry once it holds
+ * more than `capacity` entries (1000 by default).
+ *
+ * @since 1.0.0
+ * @category Constructors
+ */
+export const memory = (options?: {
+	readonly capacity?: number | undefined;
+}): Store => {
+	const capacity = options?.capacity ?? 1000;
+	const entries = new Map<string, Entry>();
+	return {
+		get(key) {
+			const entry = entries.get(key);
+			if (entry) {
+				entries.delete(key);
+				entries.set(key, entry);
+			}
+			return entry;
+		},
+		set(key, entry) {
+			entries.delete(key);
+			entries.set(key, entry);
+			if (entries.size > capacity) {
+				entries.delete(entries.keys().next().value!);
+			}
+		},
+		delete(key) {
+			entries.delete(key);
+		},
+		entries: () => entries.entries(),
+	};
+};
+
+/**
+ * @since 1.0.0
+ * @category Guards
+ */
+export const isFresh = (entry: Entry, now: number = Date.now()): boolean =>
+	now - entry.result.timestamp < entry.ttl;
+
+/**
+ * Removes every entry carrying at least one of `tags`.
+ *
+ * @since 1.0.0
+ * @category Combinators
+ */
+export const invalidate = (store: Store, tags: ReadonlyArray<string>): void => {
+	const keys: Array<string> = [];
+	for (const [key, entry] of store.entries()) {
+		if (entry.tags.some((tag) => tags.includes(tag))) {
+			keys.push(key);
+		}
+	}
+	for (const key of keys) {
+		store.delete(key);
+	}
+};
@@ -0,0 +1,383 @@
+/**
+ * React hooks calling an `ApiClient` from client components, available from
+ * `effect-http-bridge/react`.
+ *
+ * @since 1.0.0
+ */
+import type * as HttpApiEndpoint from "@effect/platform/HttpApiEndpoint";
+import type * as HttpApiGroup from "@effect/platform/HttpApiGroup";
+import * as Schema from "effect/Schema";
+import * as React from "react";
+import type * as BridgeError from "./BridgeError";
+import type * as HttpBridge from "./HttpBridge";
+import { ClientKey } from "./internal/clientKey";
+import { requestKey } from "./internal/requestKey";
+import * as Result from "./Result";
+
+/**
+ * Options of `useQuery`.
+ *
+ * @since 1.0.0
+ * @category Models
+ */
+export interface UseQueryOptions<A, E>
+	extends Omit<HttpBridge.CallOptions, "signal" | "invalidates"> {
+	/**
+	 * Suspends the component until the first result is available instead of
+	 * rendering a `Result.Initial`.
+	 */
+	readonly suspense?: boolean | undefined;
+
+	/**
+	 * A result fetched ahead of time, e.g. by a server component, used instead
+	 * of calling the endpoint on mount. Takes a `Result` or its encoded form.
+	 */
+	readonly initialResult?:
+		| Result.Result<A, E>
+		| Result.Encoded<unknown, unknown>
+		| undefined;
+
+	/**
+	 * Decodes an encoded `initialResult`. Without it the value and errors are
+	 * kept as plain JSON.
+	 */
+	readonly schema?: Schema.Schema<Result.Result<A, E>, any> | undefined;
+}
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export interface UseQuery<A, E> {
+	/**
+	 * The latest result, `waiting` while a request is in flight.
+	 */
+	readonly result: Result.Result<A, E>;
+
+	/**
+	 * Calls the endpoint again, interrupting the request in flight.
+	 */
+	readonly refetch: () => Promise<Result.Success<A, E> | Result.Failure<A, E>>;
+
+	/**
+	 * Interrupts the request in flight and goes back to `Result.Initial`.
+	 */
+	readonly reset: () => void;
+}
+
+/**
+ * @since 1.0.0
+ * @category Models
+ */
+export interface UseMutation<Request, A, E> {
+	/**
+	 * The result of the latest call, `Result.Initial` until the first one.
+	 */
+	readonly result: Result.Result<A, E>;
+
+	/**
+	 * Calls the endpoint. The returned promise resolves even when a later call
+	 * has replaced its result.
+	 */
+	readonly mutate: (
+		request: Request,
+		options?: Omit<HttpBridge.CallOptions, "signal">,
+	) => Promise<Result.Success<A, E> | Result.Failure<A, E>>;
+
+	/**
+	 * Goes back to `Result.Initial`, leaving calls in flight running.
+	 */
+	readonly reset: () => void;
+}
+
+/**
+ * Calls a GET or HEAD endpoint when the component mounts and whenever the
+ * group, endpoint or request changes. The request is interrupted when the
+ * component unmounts.
+ *
+ * @since 1.0.0
+ * @category Hooks
+ */
+export const useQuery = <
+	Groups extends HttpApiGroup.HttpApiGroup.Any,
+	ApiE,
+	E,
+	GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+	Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+		HttpBridge.QueryEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+	>,
+	Group extends
+		HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+		Groups,
+		GroupName
+	>,
+	Endpoint extends
+		HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+		HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+		Name
+	>,
+>(
+	client: HttpBridge.BridgeClient<any, Groups, ApiE, E>,
+	group: GroupName,
+	endpoint: Name,
+	request: HttpBridge.PromiseClient.Request<Endpoint>,
+	options?: UseQueryOptions<
+		HttpBridge.PromiseClient.Success<Endpoint>,
+		| HttpBridge.PromiseClient.Error<
+				Endpoint,
+				HttpApiGroup.HttpApiGroup.Error<Group>,
+				ApiE
+		  >
+		| E
+		| BridgeError.BridgeError
+	>,
+): UseQuery<
+	HttpBridge.PromiseClient.Success<Endpoint>,
+	| HttpBridge.PromiseClient.Error<
+			Endpoint,
+			HttpApiGroup.HttpApiGroup.Error<Group>,
+			ApiE
+	  >
+	| E
+	| BridgeError.BridgeError
+> => {
+	const {
+		suspense = false,
+		initialResult,
+		schema,
+		...callOptions
+	} = options ?? {};
+	const key = requestKey([clientKey(client), group, endpoint, request]);
+	const latest = React.useRef({ client, request, callOptions });
+	latest.current = { client, request, callOptions };
+	const controller = React.useRef<AbortController | undefined>(undefined);
+	// The key whose result is already known, so that mounting doesn't call
+	// the endpoint again.
+	const settled = React.useRef(initialResult === undefined ? undefined : key);
+	const [state, setState] = React.useState<{
+		readonly key: string | undefined;
+		readonly result: Result.Result<any, any>;
+	}>(() =>
+		initialResult === undefined
+			? { key: undefined, result: Result.initial(true) }
+			: { key, result: hydrate(initialResult, schema) },
+	);
+
+	const suspended =
+		suspense && state.key !== key
+			? suspend(key, () =>
+					(client.query as AnyQuery)(group, endpoint, request, callOptions),
+				)
+			: undefined;
+
+	const refetch = React.useCallback(() => {
+		controller.current?.abort();
+		const current = new AbortController();
+		controller.current = current;
+		setState((state) => ({
+			key,
+			result: Result.waiting(
+				state.key === key ? state.result : Result.initial(),
+			),
+		}));
+		const { client, request, callOptions } = latest.current;
+		return (client.query as AnyQuery)(group, endpoint, request, {
+			...callOptions,
+			signal: current.signal,
+		}).then((result) => {
+			if (!current.signal.aborted) {
+				settled.current = key;
+				setState({ key, result });
+			}
+			return result;
+		});
+	}, [group, endpoint, key]);
+
+	React.useEffect(() => {
+		if (settled.current === key) {
+			return;
+		}
+		if (suspended !== undefined) {
+			settled.current = key;
+			suspendedQueries.delete(key);
+			setState({ key, result: suspended });
+			return;
+		}
+		refetch();
+		return () => controller.current?.abort();
+	}, [key, refetch, suspended]);
+
+	// Interrupts a `refetch` still running once the component unmounts.
+	React.useEffect(() => () => controller.current?.abort(), []);
+
+	const reset = React.useCallback(() => {
+		controller.current?.abort();
+		settled.current = key;
+		setState({ key, result: Result.initial() });
+	}, [key]);
+
+	return {
+		result:
+			state.key === key ? state.result : (suspended ?? Result.initial(true)),
+		refetch,
+		reset,
+	} as any;
+};
+
+/**
+ * Returns a function calling a non-GET endpoint together with the result of
+ * its latest call. Calls still in flight are interrupted when the component
+ * unmounts.
+ *
+ * @since 1.0.0
+ * @category Hooks
+ */
+export const useMutation = <
+	Groups extends HttpApiGroup.HttpApiGroup.Any,
+	ApiE,
+	E,
+	GroupName extends HttpApiGroup.HttpApiGroup.Name<Groups>,
+	Name extends HttpApiEndpoint.HttpApiEndpoint.Name<
+		HttpBridge.MutationEndpoints<HttpApiGroup.HttpApiGroup.Endpoints<Group>>
+	>,
+	Group extends
+		HttpApiGroup.HttpApiGroup.Any = HttpApiGroup.HttpApiGroup.WithName<
+		Groups,
+		GroupName
+	>,
+	Endpoint extends
+		HttpApiEndpoint.HttpApiEndpoint.Any = HttpApiEndpoint.HttpApiEndpoint.WithName<
+		HttpApiGroup.HttpApiGroup.Endpoints<Group>,
+		Name
+	>,
+>(
+	client: HttpBridge.BridgeClient<any, Groups, ApiE, E>,
+	group: GroupName,
+	endpoint: Name,
+	options?: {
+		readonly invalidates?: ReadonlyArray<string> | undefined;
+	},
+): UseMutation<
+	HttpBridge.PromiseClient.Request<Endpoint>,
+	HttpBridge.PromiseClient.Success<Endpoint>,
+	| HttpBridge.PromiseClient.Error<
+			Endpoint,
+			HttpApiGroup.HttpApiGroup.Error<Group>,
+			ApiE
+	  >
+	| E
+	| BridgeError.BridgeError
+> => {
+	const invalidates = options?.invalidates;
+	const latestClient = React.useRef(client);
+	latestClient.current = client;
+	const controllers = React.useRef(new Set<AbortController>());
+	const latest = React.useRef(0);
+	const [result, setResult] = React.useState<Result.Result<any, any>>(() =>
+		Result.initial(),
+	);
+
+	React.useEffect(() => {
+		const current = controllers.current;
+		return () => {
+			for (const controller of current) {
+				controller.abort();
+			}
+		};
+	}, []);
+
+	const mutate = React.useCallback(
+		(request: unknown, callOptions?: HttpBridge.CallOptions) => {
+			const controller = new AbortController();
+			const call = ++latest.current;
+			controllers.current.add(controller);
+			setResult(Result.waiting);
+			const { mutation } = latestClient.current;
+			return (mutation as any as AnyMutation)(group, endpoint, {
+				invalidates,
+			})(request, { ...callOptions, signal: controller.signal }).then(
+				(result) => {
+					controllers.current.delete(controller);
+					if (call === latest.current && !controller.signal.aborted) {
+						setResult(result);
+					}
+					return result;
+				},
+			);
+		},
+		// Tags are compared by value so an inline array doesn't recreate
+		// `mutate` on every render.
+		[clientKey(client), group, endpoint, invalidates?.join("\0")],
+	);
+
+	const reset = React.useCallback(() => {
+		latest.current++;
+		setResult(Result.initial());
+	}, []);
+
+	return { result, mutate, reset } as any;
+};
+
+type AnyQuery = (
+	group: string,
+	endpoint: string,
+	request: unknown,
+	options?: HttpBridge.CallOptions,
+) => Promise<Result.Success<any, any> | Result.Failure<any, any>>;
+
+type AnyMutation = (
+	group: string,
+	endpoint: string,
+	options?: { readonly invalidates?: ReadonlyArray<string> | undefined },
+) => (
+	request: unknown,
+	options?: HttpBridge.CallOptions,
+) => Promise<Result.Success<any, any> | Result.Failure<any, any>>;
+
+const UnknownResult = Result.Schema({
+	success: Schema.Unknown,
+	error: Schema.Unknown,
+});
+
+const hydrate = (
+	result: Result.Result<any, any> | Result.Encoded<unknown, unknown>,
+	schema: Schema.Schema<Result.Result<any, any>, any> | undefined,
+): Result.Result<any, any> =>
+	Result.isResult(result)
+		? result
+		: Schema.decodeUnknownSync(schema ?? UnknownResult)(result);
+
+interface Suspended {
+	readonly promise: Promise<unknown>;
+	result?: Result.Success<any, any> | Result.Failure<any, any>;
+}
+
+// Clients derived inline with `ApiClient.with` are new objects on every
+// render, so hooks compare clients by key rather than identity.
+const clientKey = (client: object): string =>
+	(client as { readonly [ClientKey]: string })[ClientKey];
+
+// Results of suspended queries by the key of their client and request, kept
+// until the component using them mounts since React discards the state of a
+// component that suspended.
+const suspendedQueries = new Map<string, Suspended>();
+
+const suspend = (
+	key: string,
+	query: () => Promise<Result.Success<any, any> | Result.Failure<any, any>>,
+): Result.Success<any, any> | Result.Failure<any, any> => {
+	let entry = suspendedQueries.get(key);
+	if (entry === undefined) {
+		const suspended: Suspended = {
+			promise: query().then((result) => {
+				suspended.result = result;
+			}),
+		};
+		entry = suspended;
+		suspendedQueries.set(key, entry);
+	}
+	if (entry.result === undefined) {
+		throw entry.promise;
+	}
+	return entry.result;
+};
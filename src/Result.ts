@@ -2,18 +2,24 @@
  * @since 1.0.0
  */
 /* eslint-disable @typescript-eslint/no-empty-object-type */
+import * as HttpApiSchema from "@effect/platform/HttpApiSchema";
+import * as HttpClientError from "@effect/platform/HttpClientError";
 import * as Cause from "effect/Cause";
+import type * as Duration from "effect/Duration";
 import * as Equal from "effect/Equal";
 import * as Exit from "effect/Exit";
 import type { LazyArg } from "effect/Function";
 import { constTrue, dual, identity } from "effect/Function";
 import * as Hash from "effect/Hash";
 import * as Option from "effect/Option";
+import * as ParseResult from "effect/ParseResult";
 import { type Pipeable, pipeArguments } from "effect/Pipeable";
 import type { Predicate, Refinement } from "effect/Predicate";
 import { hasProperty, isIterable } from "effect/Predicate";
 import * as Schema_ from "effect/Schema";
 import type * as Types from "effect/Types";
+import * as BridgeError from "./BridgeError";
+import { serializableHeaders } from "./internal/headers";
 
 /**
  * @since 1.0.0
@@ -31,7 +37,10 @@ export type TypeId = typeof TypeId;
  * @since 1.0.0
  * @category models
  */
-export type Result<A, E = never> = Success<A, E> | Failure<A, E>;
+export type Result<A, E = never> =
+	| Initial<A, E>
+	| Success<A, E>
+	| Failure<A, E>;
 
 /**
  * @since 1.0.0
@@ -54,6 +63,10 @@ export declare namespace Result {
 			readonly E: (_: never) => E;
 			readonly A: (_: never) => A;
 		};
+		/**
+		 * Whether a new value is being loaded, e.g. while refetching.
+		 */
+		readonly waiting: boolean;
 	}
 
 	/**
@@ -70,14 +83,16 @@ export declare namespace Result {
 /**
  * @since 1.0.0
  */
-export type With<R extends Result<any, any>, A, E> = R extends Success<
+export type With<R extends Result<any, any>, A, E> = R extends Initial<
 	infer _A,
 	infer _E
 >
-	? Success<A, E>
-	: R extends Failure<infer _A, infer _E>
-		? Failure<A, E>
-		: never;
+	? Initial<A, E>
+	: R extends Success<infer _A, infer _E>
+		? Success<A, E>
+		: R extends Failure<infer _A, infer _E>
+			? Failure<A, E>
+			: never;
 
 const ResultProto = {
 	[TypeId]: {
@@ -88,10 +103,12 @@ const ResultProto = {
 		return pipeArguments(this, arguments);
 	},
 	[Equal.symbol](this: Result<any, any>, that: Result<any, any>): boolean {
-		if (this._tag !== that._tag) {
+		if (this._tag !== that._tag || this.waiting !== that.waiting) {
 			return false;
 		}
 		switch (this._tag) {
+			case "Initial":
+				return true;
 			case "Success":
 				return Equal.equals(this.value, (that as Success<any, any>).value);
 			case "Failure":
@@ -99,7 +116,12 @@ const ResultProto = {
 		}
 	},
 	[Hash.symbol](this: Result<any, any>): number {
-		const tagHash = Hash.string(this._tag);
+		const tagHash = Hash.combine(Hash.hash(this.waiting))(
+			Hash.string(this._tag),
+		);
+		if (this._tag === "Initial") {
+			return Hash.cached(this, tagHash);
+		}
 		return Hash.cached(
 			this,
 			Hash.combine(tagHash)(
@@ -119,15 +141,72 @@ export const fromExit = <A, E>(
 	exit._tag === "Success" ? success(exit.value) : failure(exit.cause);
 
 /**
+ * Like `fromExit`, but a failure keeps the last successful value of
+ * `previous` as its `previousSuccess`.
+ *
  * @since 1.0.0
  * @category constructors
- * @deprecated Use fromExit instead - previousSuccess is no longer supported
  */
 export const fromExitWithPrevious = <A, E>(
 	exit: Exit.Exit<A, E>,
-	_previous: Option.Option<Result<A, E>>,
+	previous: Option.Option<Result<A, E>>,
 ): Success<A, E> | Failure<A, E> =>
-	exit._tag === "Success" ? success(exit.value) : failure(exit.cause);
+	exit._tag === "Success"
+		? success(exit.value)
+		: failure(exit.cause, {
+				previousSuccess: Option.flatMap(previous, previousSuccess),
+			});
+
+/**
+ * @since 1.0.0
+ * @category models
+ */
+export interface Initial<A, E = never> extends Result.Proto<A, E> {
+	readonly _tag: "Initial";
+}
+
+/**
+ * @since 1.0.0
+ * @category refinements
+ */
+export const isInitial = <A, E>(
+	result: Result<A, E>,
+): result is Initial<A, E> => result._tag === "Initial";
+
+/**
+ * @since 1.0.0
+ * @category refinements
+ */
+export const isWaiting = <A, E>(result: Result<A, E>): boolean =>
+	result.waiting;
+
+/**
+ * @since 1.0.0
+ * @category constructors
+ */
+export const initial = <A = never, E = never>(
+	waiting = false,
+): Initial<A, E> => {
+	const result = Object.create(ResultProto);
+	result._tag = "Initial";
+	result.waiting = waiting;
+	return result;
+};
+
+/**
+ * Marks a result as waiting for a new value, keeping its current state.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const waiting = <R extends Result<any, any>>(self: R): R => {
+	if (self.waiting) {
+		return self;
+	}
+	const result = Object.assign(Object.create(ResultProto), self);
+	result.waiting = true;
+	return result;
+};
 
 /**
  * @since 1.0.0
@@ -137,6 +216,25 @@ export interface Success<A, E = never> extends Result.Proto<A, E> {
 	readonly _tag: "Success";
 	readonly value: A;
 	readonly timestamp: number;
+	/**
+	 * Details of the HTTP response the value was decoded from, when known.
+	 */
+	readonly metadata: Option.Option<ResponseMetadata>;
+}
+
+/**
+ * @since 1.0.0
+ * @category models
+ */
+export interface ResponseMetadata {
+	readonly status: number;
+	readonly headers: Readonly<Record<string, string>>;
+	readonly duration: Duration.Duration;
+	/**
+	 * The `x-request-id` header of the response, or else the id sent with the
+	 * request when the client has `sendRequestId` set.
+	 */
+	readonly requestId: Option.Option<string>;
 }
 
 /**
@@ -154,13 +252,17 @@ export const isSuccess = <A, E>(
 export const success = <A, E = never>(
 	value: A,
 	options?: {
+		readonly waiting?: boolean | undefined;
 		readonly timestamp?: number | undefined;
+		readonly metadata?: Option.Option<ResponseMetadata> | undefined;
 	},
 ): Success<A, E> => {
 	const result = Object.create(ResultProto);
 	result._tag = "Success";
+	result.waiting = options?.waiting ?? false;
 	result.value = value;
 	result.timestamp = options?.timestamp ?? Date.now();
+	result.metadata = options?.metadata ?? Option.none();
 	return result;
 };
 
@@ -171,6 +273,10 @@ export const success = <A, E = never>(
 export interface Failure<A, E = never> extends Result.Proto<A, E> {
 	readonly _tag: "Failure";
 	readonly cause: Cause.Cause<E>;
+	/**
+	 * The last successful value before this failure, if any.
+	 */
+	readonly previousSuccess: Option.Option<Success<A, E>>;
 }
 
 /**
@@ -190,14 +296,29 @@ export const isInterrupted = <A, E>(
 ): result is Failure<A, E> =>
 	result._tag === "Failure" && Cause.isInterruptedOnly(result.cause);
 
+/**
+ * @since 1.0.0
+ * @category refinements
+ */
+export const isStale = <A, E>(result: Result<A, E>): result is Failure<A, E> =>
+	result._tag === "Failure" && Option.isSome(result.previousSuccess);
+
 /**
  * @since 1.0.0
  * @category constructors
  */
-export const failure = <E, A = never>(cause: Cause.Cause<E>): Failure<A, E> => {
+export const failure = <E, A = never>(
+	cause: Cause.Cause<E>,
+	options?: {
+		readonly previousSuccess?: Option.Option<Success<A, E>> | undefined;
+		readonly waiting?: boolean | undefined;
+	},
+): Failure<A, E> => {
 	const result = Object.create(ResultProto);
 	result._tag = "Failure";
+	result.waiting = options?.waiting ?? false;
 	result.cause = cause;
+	result.previousSuccess = options?.previousSuccess ?? Option.none();
 	return result;
 };
 
@@ -205,8 +326,29 @@ export const failure = <E, A = never>(cause: Cause.Cause<E>): Failure<A, E> => {
  * @since 1.0.0
  * @category constructors
  */
-export const fail = <E, A = never>(error: E): Failure<A, E> =>
-	failure(Cause.fail(error));
+export const fail = <E, A = never>(
+	error: E,
+	options?: {
+		readonly previousSuccess?: Option.Option<Success<A, E>> | undefined;
+		readonly waiting?: boolean | undefined;
+	},
+): Failure<A, E> => failure(Cause.fail(error), options);
+
+/**
+ * The result itself when successful, otherwise the `previousSuccess` of the
+ * failure.
+ *
+ * @since 1.0.0
+ * @category accessors
+ */
+export const previousSuccess = <A, E>(
+	self: Result<A, E>,
+): Option.Option<Success<A, E>> =>
+	self._tag === "Success"
+		? Option.some(self)
+		: self._tag === "Failure"
+			? self.previousSuccess
+			: Option.none();
 
 /**
  * @since 1.0.0
@@ -287,6 +429,263 @@ export const toExit = <A, E>(
 	}
 };
 
+/**
+ * What a failure is about, returned by `classify`.
+ *
+ * @since 1.0.0
+ * @category models
+ */
+export type Classification<E> =
+	| {
+			readonly kind: "network" | "timeout" | "decode" | "http" | "domain";
+			readonly status: Option.Option<number>;
+			readonly retryable: boolean;
+			readonly error: E;
+	  }
+	| {
+			readonly kind: "defect";
+			readonly status: Option.Option<number>;
+			readonly retryable: false;
+			readonly error: unknown;
+	  }
+	| {
+			readonly kind: "interrupted";
+			readonly status: Option.Option<number>;
+			readonly retryable: false;
+			readonly error: undefined;
+	  };
+
+/**
+ * Sorts a failure by kind, along with its HTTP status when known and
+ * whether retrying may help:
+ *
+ * - `network`: the request could not be sent, or the client runtime failed
+ *   to build
+ * - `timeout`: the call exceeded its `timeout`
+ * - `decode`: the request or response did not match the schemas
+ * - `http`: the server answered with a status the endpoint doesn't declare
+ * - `domain`: any other error, e.g. declared by the endpoint, with the status
+ *   of its `HttpApiSchema` annotation
+ * - `defect`: the call died or hit a bug, such as an unknown endpoint
+ * - `interrupted`: the call was interrupted
+ *
+ * Statuses 408, 429 and 5xx are retryable.
+ *
+ * @since 1.0.0
+ * @category accessors
+ */
+export const classify = <A, E>(self: Failure<A, E>): Classification<E> =>
+	Option.match(Cause.failureOption(self.cause), {
+		onNone: (): Classification<E> =>
+			Cause.isInterruptedOnly(self.cause)
+				? {
+						kind: "interrupted",
+						status: Option.none(),
+						retryable: false,
+						error: undefined,
+					}
+				: {
+						kind: "defect",
+						status: Option.none(),
+						retryable: false,
+						error: Cause.squash(self.cause),
+					},
+		onSome: (error) => classifyError(error),
+	});
+
+const isRetryableStatus = (status: number): boolean =>
+	status === 408 || status === 429 || status >= 500;
+
+const classifyError = <E>(error: E): Classification<E> => {
+	if (HttpClientError.isHttpClientError(error)) {
+		if (error._tag === "RequestError") {
+			return {
+				kind: "network",
+				status: Option.none(),
+				retryable: error.reason === "Transport",
+				error,
+			};
+		}
+		const status = error.response.status;
+		// `HttpApiClient` reports statuses the endpoint doesn't declare as a
+		// `Decode` error.
+		return error.reason !== "StatusCode" && status >= 200 && status < 300
+			? { kind: "decode", status: Option.some(status), retryable: false, error }
+			: {
+					kind: "http",
+					status: Option.some(status),
+					retryable: isRetryableStatus(status),
+					error,
+				};
+	}
+	if (
+		ParseResult.isParseError(error) ||
+		error instanceof BridgeError.ValidationError
+	) {
+		return { kind: "decode", status: Option.none(), retryable: false, error };
+	}
+	if (error instanceof BridgeError.BridgeTimeout) {
+		return { kind: "timeout", status: Option.none(), retryable: true, error };
+	}
+	if (error instanceof BridgeError.RuntimeInitError) {
+		return { kind: "network", status: Option.none(), retryable: true, error };
+	}
+	if (
+		error instanceof BridgeError.EndpointNotFound ||
+		error instanceof BridgeError.MethodMismatch
+	) {
+		return { kind: "defect", status: Option.none(), retryable: false, error };
+	}
+	const status =
+		hasProperty(error, "constructor") && Schema_.isSchema(error.constructor)
+			? Option.some(HttpApiSchema.getStatus(error.constructor.ast, 0)).pipe(
+					Option.filter((status) => status !== 0),
+				)
+			: Option.none();
+	return {
+		kind: "domain",
+		status,
+		retryable: Option.exists(status, isRetryableStatus),
+		error,
+	};
+};
+
+/**
+ * An RFC 7807 problem details object, returned by `toProblemDetails`.
+ *
+ * @since 1.0.0
+ * @category models
+ */
+export interface ProblemDetails {
+	readonly type: string;
+	readonly title: string;
+	readonly status: number;
+	readonly detail?: string | undefined;
+	readonly [extension: string]: unknown;
+}
+
+/**
+ * @since 1.0.0
+ * @category models
+ */
+export interface ProblemDetailsOptions {
+	/**
+	 * Hides the details of defects and of errors that aren't the caller's
+	 * concern, such as network, timeout and decode errors. Defaults to `true`.
+	 */
+	readonly redact?: boolean | undefined;
+
+	/**
+	 * The errors declared by the API for the endpoint, e.g.
+	 * `ApiClient.errorSchema(group, endpoint)`. Only errors matching it are
+	 * described; any other error is reported as an internal error.
+	 */
+	readonly errors?: Schema_.Schema<any, any> | undefined;
+}
+
+/**
+ * Describes a failure as RFC 7807 problem details.
+ *
+ * Errors matching the `errors` schema keep their `_tag` as `title`, their
+ * `message` field as `detail` and their other encoded fields as extension
+ * members, with the status of their `HttpApiSchema` annotation or 500. A
+ * `ValidationError` is a 400 exposing its `issues`. Other failures, including
+ * every error when `errors` is missing, are reported as 500, 502 or 504 and,
+ * unless `redact` is `false`, without details.
+ *
+ * @since 1.0.0
+ * @category conversions
+ */
+export const toProblemDetails = <A, E>(
+	self: Failure<A, E>,
+	options?: ProblemDetailsOptions,
+): ProblemDetails => {
+	const classification = classify(self);
+	const error: unknown = classification.error;
+	if (error instanceof BridgeError.ValidationError) {
+		return {
+			type: "about:blank",
+			title: "Bad Request",
+			status: 400,
+			issues: error.issues,
+		};
+	}
+	const declared =
+		classification.kind === "domain" && options?.errors !== undefined
+			? Schema_.encodeUnknownOption(options.errors)(error)
+			: Option.none();
+	if (Option.isSome(declared)) {
+		const fields = hasProperty(declared.value, "_tag") ? declared.value : {};
+		const { _tag, message, ...extensions } = fields as Record<string, unknown>;
+		return {
+			...extensions,
+			type: "about:blank",
+			title:
+				typeof _tag === "string"
+					? _tag
+					: hasProperty(error, "_tag") && typeof error._tag === "string"
+						? error._tag
+						: "Error",
+			status: Option.getOrElse(classification.status, () => 500),
+			...(typeof message === "string" ? { detail: message } : {}),
+		};
+	}
+	const [status, title] =
+		classification.kind === "timeout"
+			? ([504, "Gateway Timeout"] as const)
+			: classification.kind === "network" ||
+					classification.kind === "decode" ||
+					classification.kind === "http"
+				? ([502, "Bad Gateway"] as const)
+				: ([500, "Internal Server Error"] as const);
+	return options?.redact === false
+		? { type: "about:blank", title, status, detail: Cause.pretty(self.cause) }
+		: { type: "about:blank", title, status };
+};
+
+/**
+ * Converts a settled result to a web `Response`, e.g. to answer from a route
+ * handler. A success is sent as JSON, encoded with `schema` when given, or
+ * as an empty 204 when its value is `undefined`. A failure is sent as
+ * `application/problem+json` with the body and status of `toProblemDetails`.
+ *
+ * @since 1.0.0
+ * @category conversions
+ */
+export const toResponse = <A, E, I = A>(
+	self: Success<A, E> | Failure<A, E>,
+	options?: ProblemDetailsOptions & {
+		/**
+		 * Status of a successful response. Defaults to 200.
+		 */
+		readonly status?: number | undefined;
+		readonly headers?: Readonly<Record<string, string>> | undefined;
+		readonly schema?: Schema_.Schema<A, I> | undefined;
+	},
+): Response => {
+	const headers = new Headers(options?.headers);
+	if (self._tag === "Failure") {
+		const problem = toProblemDetails(self, options);
+		headers.set("content-type", "application/problem+json");
+		return new Response(JSON.stringify(problem), {
+			status: problem.status,
+			headers,
+		});
+	}
+	if (self.value === undefined) {
+		return new Response(null, { status: 204, headers });
+	}
+	const body =
+		options?.schema === undefined
+			? self.value
+			: Schema_.encodeSync(options.schema)(self.value);
+	headers.set("content-type", "application/json");
+	return new Response(JSON.stringify(body), {
+		status: options?.status ?? 200,
+		headers,
+	});
+};
+
 /**
  * @since 1.0.0
  * @category combinators
@@ -296,26 +695,334 @@ export const map: {
 	<E, A, B>(self: Result<A, E>, f: (a: A) => B): Result<B, E>;
 } = dual(2, <E, A, B>(self: Result<A, E>, f: (a: A) => B): Result<B, E> => {
 	switch (self._tag) {
+		case "Initial":
+			return self as Initial<any, E>;
 		case "Failure":
-			return failure(self.cause);
+			return failure(self.cause, {
+				previousSuccess: Option.map(self.previousSuccess, (s) =>
+					success(f(s.value), s),
+				),
+				waiting: self.waiting,
+			});
 		case "Success":
 			return success(f(self.value), self);
 	}
 });
 
 /**
- * Pattern match on a Result.
+ * Chains a computation depending on the value of a successful result. Like
+ * `map`, a failure keeps its `waiting` flag and its `previousSuccess` when
+ * `f` succeeds on its value.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const flatMap: {
+	<A, B, E2>(
+		f: (a: A) => Result<B, E2>,
+	): <E>(self: Result<A, E>) => Result<B, E | E2>;
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		f: (a: A) => Result<B, E2>,
+	): Result<B, E | E2>;
+} = dual(
+	2,
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		f: (a: A) => Result<B, E2>,
+	): Result<B, E | E2> =>
+		self._tag === "Success"
+			? f(self.value)
+			: self._tag === "Failure"
+				? failure(self.cause, {
+						previousSuccess: Option.flatMap(self.previousSuccess, (s) => {
+							const result = f(s.value);
+							return isSuccess(result)
+								? Option.some(success(result.value, s))
+								: Option.none();
+						}),
+						waiting: self.waiting,
+					})
+				: (self as Initial<any, E>),
+);
+
+/**
+ * Like `flatMap`, for asynchronous computations such as dependent `query`
+ * calls. A failure keeps its `waiting` flag but not its `previousSuccess`,
+ * which would take calling `f` again.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const flatMapAsync: {
+	<A, B, E2>(
+		f: (a: A) => PromiseLike<Result<B, E2>>,
+	): <E>(self: Result<A, E>) => Promise<Result<B, E | E2>>;
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		f: (a: A) => PromiseLike<Result<B, E2>>,
+	): Promise<Result<B, E | E2>>;
+} = dual(
+	2,
+	async <A, E, B, E2>(
+		self: Result<A, E>,
+		f: (a: A) => PromiseLike<Result<B, E2>>,
+	): Promise<Result<B, E | E2>> =>
+		self._tag === "Success"
+			? f(self.value)
+			: self._tag === "Failure"
+				? failure(self.cause, { waiting: self.waiting })
+				: (self as Initial<any, E>),
+);
+
+/**
+ * @since 1.0.0
+ * @category combinators
+ */
+export const mapError: {
+	<E, E2>(f: (e: E) => E2): <A>(self: Result<A, E>) => Result<A, E2>;
+	<A, E, E2>(self: Result<A, E>, f: (e: E) => E2): Result<A, E2>;
+} = dual(2, <A, E, E2>(self: Result<A, E>, f: (e: E) => E2): Result<A, E2> => {
+	switch (self._tag) {
+		case "Failure":
+			return failure(Cause.map(self.cause, f), {
+				previousSuccess: Option.map(self.previousSuccess, (s) =>
+					success(s.value, s),
+				),
+				waiting: self.waiting,
+			});
+		default:
+			return self as Initial<A, never> | Success<A, never>;
+	}
+});
+
+/**
+ * Recovers from the errors with the given `_tag`.
+ *
+ * @since 1.0.0
+ * @category error handling
+ */
+export const catchTag: {
+	<E, const K extends Types.Tags<E>, B, E2>(
+		tag: K,
+		f: (error: Types.ExtractTag<E, K>) => Result<B, E2>,
+	): <A>(self: Result<A, E>) => Result<A | B, Types.ExcludeTag<E, K> | E2>;
+	<A, E, const K extends Types.Tags<E>, B, E2>(
+		self: Result<A, E>,
+		tag: K,
+		f: (error: Types.ExtractTag<E, K>) => Result<B, E2>,
+	): Result<A | B, Types.ExcludeTag<E, K> | E2>;
+} = dual(
+	3,
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		tag: string,
+		f: (error: any) => Result<B, E2>,
+	): Result<A | B, unknown> => catchTags(self, { [tag]: f } as any) as any,
+);
+
+/**
+ * Recovers from errors by `_tag`, with one handler per tag.
+ *
+ * @since 1.0.0
+ * @category error handling
+ */
+export const catchTags: {
+	<
+		E,
+		Cases extends {
+			[K in Types.Tags<E>]+?: (
+				error: Types.ExtractTag<E, K>,
+			) => Result<any, any>;
+		} & (unknown extends E
+			? {}
+			: { [K in Exclude<keyof Cases, Types.Tags<E>>]: never }),
+	>(
+		cases: Cases,
+	): <A>(self: Result<A, E>) => Result<
+		| A
+		| {
+				[K in keyof Cases]: Cases[K] extends (
+					...args: Array<any>
+				) => Result<infer B, infer _E>
+					? B
+					: never;
+		  }[keyof Cases],
+		| Exclude<E, { readonly _tag: keyof Cases }>
+		| {
+				[K in keyof Cases]: Cases[K] extends (
+					...args: Array<any>
+				) => Result<infer _B, infer E2>
+					? E2
+					: never;
+		  }[keyof Cases]
+	>;
+	<
+		A,
+		E,
+		Cases extends {
+			[K in Types.Tags<E>]+?: (
+				error: Types.ExtractTag<E, K>,
+			) => Result<any, any>;
+		} & (unknown extends E
+			? {}
+			: { [K in Exclude<keyof Cases, Types.Tags<E>>]: never }),
+	>(
+		self: Result<A, E>,
+		cases: Cases,
+	): Result<
+		| A
+		| {
+				[K in keyof Cases]: Cases[K] extends (
+					...args: Array<any>
+				) => Result<infer B, infer _E>
+					? B
+					: never;
+		  }[keyof Cases],
+		| Exclude<E, { readonly _tag: keyof Cases }>
+		| {
+				[K in keyof Cases]: Cases[K] extends (
+					...args: Array<any>
+				) => Result<infer _B, infer E2>
+					? E2
+					: never;
+		  }[keyof Cases]
+	>;
+} = dual(
+	2,
+	<A, E>(
+		self: Result<A, E>,
+		cases: Record<string, (error: any) => Result<any, any>>,
+	): Result<any, any> =>
+		Option.match(error(self), {
+			onNone: () => self,
+			onSome: (error) =>
+				hasProperty(error, "_tag") &&
+				typeof error._tag === "string" &&
+				Object.hasOwn(cases, error._tag)
+					? cases[error._tag]!(error)
+					: self,
+		}),
+);
+
+/**
+ * Falls back to another result when failing.
+ *
+ * @since 1.0.0
+ * @category error handling
+ */
+export const orElse: {
+	<B, E2>(
+		that: LazyArg<Result<B, E2>>,
+	): <A, E>(self: Result<A, E>) => Result<A | B, E2>;
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		that: LazyArg<Result<B, E2>>,
+	): Result<A | B, E2>;
+} = dual(
+	2,
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		that: LazyArg<Result<B, E2>>,
+	): Result<A | B, E2> =>
+		self._tag === "Failure"
+			? that()
+			: (self as Initial<A, never> | Success<A, never>),
+);
+
+/**
+ * Runs a side effect with the value of a successful result, returning the
+ * result unchanged.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const tap: {
+	<A>(f: (a: A) => void): <E>(self: Result<A, E>) => Result<A, E>;
+	<A, E>(self: Result<A, E>, f: (a: A) => void): Result<A, E>;
+} = dual(2, <A, E>(self: Result<A, E>, f: (a: A) => void): Result<A, E> => {
+	if (self._tag === "Success") {
+		f(self.value);
+	}
+	return self;
+});
+
+/**
+ * Combines two results into a result of a tuple, failing with the first
+ * failure.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const zip: {
+	<B, E2>(
+		that: Result<B, E2>,
+	): <A, E>(self: Result<A, E>) => Result<[A, B], E | E2>;
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		that: Result<B, E2>,
+	): Result<[A, B], E | E2>;
+} = dual(
+	2,
+	<A, E, B, E2>(
+		self: Result<A, E>,
+		that: Result<B, E2>,
+	): Result<[A, B], E | E2> => zipWith(self, that, (a, b) => [a, b]),
+);
+
+/**
+ * Combines the values of two results with `f`, failing with the first
+ * failure.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const zipWith: {
+	<B, E2, A, C>(
+		that: Result<B, E2>,
+		f: (a: A, b: B) => C,
+	): <E>(self: Result<A, E>) => Result<C, E | E2>;
+	<A, E, B, E2, C>(
+		self: Result<A, E>,
+		that: Result<B, E2>,
+		f: (a: A, b: B) => C,
+	): Result<C, E | E2>;
+} = dual(
+	3,
+	<A, E, B, E2, C>(
+		self: Result<A, E>,
+		that: Result<B, E2>,
+		f: (a: A, b: B) => C,
+	): Result<C, E | E2> => flatMap(self, (a) => map(that, (b) => f(a, b))),
+);
+
+/**
+ * Pattern match on a Result. `onInitial` may only be omitted for results that
+ * cannot be `Initial`, such as those returned by the client.
  *
  * @since 1.0.0
  * @category combinators
  */
 export const match: {
+	<A, E, X, Y, Z>(options: {
+		readonly onInitial: (_: Initial<A, E>) => X;
+		readonly onFailure: (_: Failure<A, E>) => Y;
+		readonly onSuccess: (_: Success<A, E>) => Z;
+	}): (self: Result<A, E>) => X | Y | Z;
 	<A, E, Y, Z>(options: {
 		readonly onFailure: (_: Failure<A, E>) => Y;
 		readonly onSuccess: (_: Success<A, E>) => Z;
-	}): (self: Result<A, E>) => Y | Z;
-	<A, E, Y, Z>(
+	}): (self: Success<A, E> | Failure<A, E>) => Y | Z;
+	<A, E, X, Y, Z>(
 		self: Result<A, E>,
+		options: {
+			readonly onInitial: (_: Initial<A, E>) => X;
+			readonly onFailure: (_: Failure<A, E>) => Y;
+			readonly onSuccess: (_: Success<A, E>) => Z;
+		},
+	): X | Y | Z;
+	<A, E, Y, Z>(
+		self: Success<A, E> | Failure<A, E>,
 		options: {
 			readonly onFailure: (_: Failure<A, E>) => Y;
 			readonly onSuccess: (_: Success<A, E>) => Z;
@@ -323,14 +1030,17 @@ export const match: {
 	): Y | Z;
 } = dual(
 	2,
-	<A, E, Y, Z>(
+	<A, E, X, Y, Z>(
 		self: Result<A, E>,
 		options: {
+			readonly onInitial?: (_: Initial<A, E>) => X;
 			readonly onFailure: (_: Failure<A, E>) => Y;
 			readonly onSuccess: (_: Success<A, E>) => Z;
 		},
-	): Y | Z => {
+	): X | Y | Z => {
 		switch (self._tag) {
+			case "Initial":
+				return options.onInitial!(self);
 			case "Failure":
 				return options.onFailure(self);
 			case "Success":
@@ -383,6 +1093,7 @@ export const all = <const Arg extends Iterable<any> | Record<string, any>>(
 		? Array.from(results, (result, i) => [i, result] as const)
 		: Object.entries(results);
 	const successes: any = isIter ? [] : {};
+	let waiting = false;
 	for (let i = 0; i < entries.length; i++) {
 		const entry = entries[i];
 		if (!entry) continue;
@@ -394,8 +1105,104 @@ export const all = <const Arg extends Iterable<any> | Record<string, any>>(
 			return result as any;
 		}
 		successes[key] = result.value;
+		if (result.waiting) {
+			waiting = true;
+		}
 	}
-	return success(successes) as any;
+	return success(successes, { waiting }) as any;
+};
+
+/**
+ * A `Failure` returned by `allSettled`, keeping the values of the results
+ * that succeeded.
+ *
+ * @since 1.0.0
+ * @category models
+ */
+export interface SettledFailure<A, E = never> extends Failure<A, E> {
+	readonly successes: Partial<A>;
+}
+
+/**
+ * @since 1.0.0
+ * @category models
+ */
+export type Settled<R extends Result<any, any>> = R extends Failure<
+	infer A,
+	infer E
+>
+	? SettledFailure<A, E>
+	: R;
+
+/**
+ * Combines multiple results into a single result like `all`, but keeps going
+ * past the first failure: the causes of every failure are combined in
+ * parallel into a single `Failure`, whose `successes` hold the values of the
+ * results that succeeded. Without failures, any `Initial` result makes the
+ * combined result `Initial`.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const allSettled = <
+	const Arg extends Iterable<any> | Record<string, any>,
+>(
+	results: Arg,
+): Settled<ReturnType<typeof all<Arg>>> => {
+	const isIter = isIterable(results);
+	const entries = isIter
+		? Array.from(results, (result, i) => [i, result] as const)
+		: Object.entries(results);
+	const successes: any = isIter ? [] : {};
+	let causes: Cause.Cause<unknown> | undefined;
+	let pending = false;
+	let waiting = false;
+	for (const [key, result] of entries) {
+		if (!isResult(result)) {
+			successes[key] = result;
+			continue;
+		}
+		waiting ||= result.waiting;
+		if (isSuccess(result)) {
+			successes[key] = result.value;
+		} else if (isFailure(result)) {
+			causes = causes ? Cause.parallel(causes, result.cause) : result.cause;
+		} else {
+			pending = true;
+		}
+	}
+	return (
+		causes
+			? Object.assign(failure(causes, { waiting }), { successes })
+			: pending
+				? initial(waiting)
+				: success(successes, { waiting })
+	) as any;
+};
+
+/**
+ * Splits results into their successes and their failures, leaving out
+ * `Initial` results.
+ *
+ * @since 1.0.0
+ * @category combinators
+ */
+export const partition = <R extends Result<any, any>>(
+	results: Iterable<R>,
+): [
+	successes: Array<R extends Success<infer _A, infer _E> ? R : never>,
+	failures: Array<R extends Failure<infer _A, infer _E> ? R : never>,
+] => {
+	const successes: Array<any> = [];
+	const failures: Array<any> = [];
+	for (const result of results) {
+		if (isSuccess(result)) {
+			successes.push(result);
+		} else if (isFailure(result)) {
+			failures.push(result);
+		}
+	}
+	return [successes, failures];
 };
 
 /**
@@ -408,7 +1215,7 @@ export const builder = <A extends Result<any, any>>(
 	never,
 	A extends Success<infer _A, infer _E> ? _A : never,
 	A extends Failure<infer _A, infer _E> ? _E : never,
-	never
+	A extends Initial<infer _A, infer _E> ? true : never
 > => new BuilderImpl(self) as any;
 
 /**
@@ -419,10 +1226,21 @@ export type Builder<Out, A, E, I> = Pipeable & {
 	onDefect<B>(
 		f: (defect: unknown, result: Failure<A, E>) => B,
 	): Builder<Out | B, A, E, I>;
+	onStale<B>(
+		f: (value: A, result: Failure<A, E>) => B,
+	): Builder<Out | B, A, E, I>;
+	onWaiting<B>(f: (result: Result<A, E>) => B): Builder<Out | B, A, E, I>;
 	orElse<B>(orElse: LazyArg<B>): Out | B;
 	orNull(): Out | null;
 	render(): [A | I] extends [never] ? Out : Out | null;
-} & ([A] extends [never]
+} & ([I] extends [never]
+		? {}
+		: {
+				onInitial<B>(
+					f: (result: Initial<A, E>) => B,
+				): Builder<Out | B, A, E, never>;
+			}) &
+	([A] extends [never]
 		? {}
 		: {
 				onSuccess<B>(
@@ -440,6 +1258,29 @@ export type Builder<Out, A, E, I> = Pipeable & {
 					f: (error: E, result: Failure<A, E>) => B,
 				): Builder<Out | B, A, never, I>;
 
+				onStatus<B>(
+					status: number | ReadonlyArray<number>,
+					f: (error: E, result: Failure<A, E>) => B,
+				): Builder<Out | B, A, E, I>;
+
+				onNetworkError<B>(
+					f: (
+						error: Extract<
+							E,
+							HttpClientError.RequestError | BridgeError.RuntimeInitError
+						>,
+						result: Failure<A, E>,
+					) => B,
+				): Builder<
+					Out | B,
+					A,
+					Exclude<
+						E,
+						HttpClientError.RequestError | BridgeError.RuntimeInitError
+					>,
+					I
+				>;
+
 				onErrorIf<B extends E, C>(
 					refinement: Refinement<E, B>,
 					f: (error: B, result: Failure<A, E>) => C,
@@ -491,6 +1332,14 @@ class BuilderImpl<Out, A, E> {
 		return pipeArguments(this, arguments);
 	}
 
+	onInitial<B>(f: (result: Initial<A, E>) => B): BuilderImpl<Out | B, A, E> {
+		return this.when(isInitial, (r) => Option.some(f(r)));
+	}
+
+	onWaiting<B>(f: (result: Result<A, E>) => B): BuilderImpl<Out | B, A, E> {
+		return this.when(isWaiting, (r) => Option.some(f(r)));
+	}
+
 	onSuccess<B>(
 		f: (value: A, result: Success<A, E>) => B,
 	): BuilderImpl<Out | B, never, E> {
@@ -533,6 +1382,34 @@ class BuilderImpl<Out, A, E> {
 		) as any;
 	}
 
+	onStatus<B>(
+		status: number | ReadonlyArray<number>,
+		f: (error: E, result: Failure<A, E>) => B,
+	): BuilderImpl<Out | B, A, E> {
+		const statuses: ReadonlyArray<number> = Array.isArray(status)
+			? status
+			: [status];
+		return this.when(isFailure, (result) => {
+			const classification = classify(result);
+			return Option.exists(classification.status, (status) =>
+				statuses.includes(status),
+			)
+				? Option.some(f(classification.error as E, result))
+				: Option.none();
+		});
+	}
+
+	onNetworkError<B>(
+		f: (error: any, result: Failure<A, E>) => B,
+	): BuilderImpl<Out | B, A, any> {
+		return this.when(isFailure, (result) => {
+			const classification = classify(result);
+			return classification.kind === "network"
+				? Option.some(f(classification.error, result))
+				: Option.none();
+		});
+	}
+
 	onDefect<B>(
 		f: (defect: unknown, result: Failure<A, E>) => B,
 	): BuilderImpl<Out | B, A, E> {
@@ -543,6 +1420,14 @@ class BuilderImpl<Out, A, E> {
 		);
 	}
 
+	onStale<B>(
+		f: (value: A, result: Failure<A, E>) => B,
+	): BuilderImpl<Out | B, A, E> {
+		return this.when(isFailure, (result) =>
+			Option.map(result.previousSuccess, (s) => f(s.value, result)),
+		);
+	}
+
 	orElse<B>(orElse: LazyArg<B>): Out | B {
 		return Option.getOrElse(this.output, orElse);
 	}
@@ -566,14 +1451,28 @@ class BuilderImpl<Out, A, E> {
  * @category Schemas
  */
 export type PartialEncoded<A, E> =
+	| {
+			readonly _tag: "Initial";
+			readonly waiting: boolean;
+	  }
 	| {
 			readonly _tag: "Success";
+			readonly waiting: boolean;
 			readonly timestamp: number;
 			readonly value: A;
+			readonly metadata: Option.Option<ResponseMetadata>;
 	  }
 	| {
 			readonly _tag: "Failure";
+			readonly waiting: boolean;
 			readonly cause: Cause.Cause<E>;
+			readonly previousSuccess: Option.Option<{
+				readonly _tag: "Success";
+				readonly waiting: boolean;
+				readonly timestamp: number;
+				readonly value: A;
+				readonly metadata: Option.Option<ResponseMetadata>;
+			}>;
 	  };
 
 /**
@@ -581,16 +1480,64 @@ export type PartialEncoded<A, E> =
  * @category Schemas
  */
 export type Encoded<A, E> =
+	| {
+			readonly _tag: "Initial";
+			readonly waiting?: boolean;
+	  }
 	| {
 			readonly _tag: "Success";
+			readonly waiting?: boolean;
 			readonly timestamp: number;
 			readonly value: A;
+			readonly metadata?: Schema_.OptionEncoded<
+				Schema_.Schema.Encoded<typeof ResponseMetadata>
+			>;
 	  }
 	| {
 			readonly _tag: "Failure";
+			readonly waiting?: boolean;
 			readonly cause: Schema_.CauseEncoded<E, unknown>;
+			readonly previousSuccess?: Schema_.OptionEncoded<{
+				readonly _tag: "Success";
+				readonly waiting?: boolean;
+				readonly timestamp: number;
+				readonly value: A;
+				readonly metadata?: Schema_.OptionEncoded<
+					Schema_.Schema.Encoded<typeof ResponseMetadata>
+				>;
+			}>;
 	  };
 
+const ResponseHeaders = Schema_.Record({
+	key: Schema_.String,
+	value: Schema_.String,
+});
+
+/**
+ * Encodes only the response headers safe to send to a browser, such as
+ * `content-type`, `cache-control`, `etag` and `x-request-id`. Headers like
+ * `set-cookie` are dropped.
+ *
+ * @since 1.0.0
+ * @category Schemas
+ */
+export const ResponseMetadata = Schema_.Struct({
+	status: Schema_.Number,
+	headers: Schema_.transform(
+		ResponseHeaders,
+		Schema_.typeSchema(ResponseHeaders),
+		{
+			strict: true,
+			decode: identity,
+			encode: serializableHeaders,
+		},
+	),
+	duration: Schema_.DurationFromMillis,
+	requestId: Schema_.optionalWith(Schema_.Option(Schema_.String), {
+		default: Option.none,
+	}),
+});
+
 /**
  * @since 1.0.0
  * @category Schemas
@@ -622,19 +1569,32 @@ export const Schema = <
 > => {
 	const success_: Success = options.success ?? (Schema_.Never as any);
 	const error: Error = options.error ?? (Schema_.Never as any);
+	const waiting = Schema_.optionalWith(Schema_.Boolean, {
+		default: () => false,
+	});
+	const successStruct = Schema_.TaggedStruct("Success", {
+		waiting,
+		timestamp: Schema_.Number,
+		value: success_,
+		metadata: Schema_.optionalWith(Schema_.Option(ResponseMetadata), {
+			default: Option.none,
+		}),
+	});
 	return Schema_.transform(
 		Schema_.Union(
-			Schema_.TaggedStruct("Success", {
-				timestamp: Schema_.Number,
-				value: success_,
-			}),
+			Schema_.TaggedStruct("Initial", { waiting }),
+			successStruct,
 			Schema_.TaggedStruct("Failure", {
+				waiting,
 				cause: Schema_.Cause({
 					error,
 					defect: Schema_.Defect,
 				}),
+				previousSuccess: Schema_.optionalWith(Schema_.Option(successStruct), {
+					default: Option.none,
+				}),
 			}),
-		) as Schema_.Schema<
+		) as unknown as Schema_.Schema<
 			PartialEncoded<Success["Type"], Error["Type"]>,
 			Encoded<Success["Encoded"], Error["Encoded"]>,
 			Success["Context"] | Error["Context"]
@@ -643,7 +1603,16 @@ export const Schema = <
 		{
 			strict: false,
 			decode: (e) =>
-				e._tag === "Success" ? success(e.value, e) : failure(e.cause),
+				e._tag === "Initial"
+					? initial(e.waiting)
+					: e._tag === "Success"
+						? success(e.value, e)
+						: failure(e.cause, {
+								previousSuccess: Option.map(e.previousSuccess, (s) =>
+									success(s.value, s),
+								),
+								waiting: e.waiting,
+							}),
 			encode: identity,
 		},
 	) as any;
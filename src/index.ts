@@ -9,3 +9,15 @@ export * as HttpBridge from "./HttpBridge";
  * @category Result Type
  */
 export * as Result from "./Result";
+
+/**
+ * @since 1.0.0
+ * @category Caching
+ */
+export * as QueryCache from "./QueryCache";
+
+/**
+ * @since 1.0.0
+ * @category Errors
+ */
+export * as BridgeError from "./BridgeError";
@@ -0,0 +1,11 @@
+// Clients derived with `ApiClient.with` are new objects on every call, so the
+// React hooks identify a client by the root it was derived from and the key of
+// its options instead.
+
+/**
+ * Property holding the key of a client. Clients derived from the same root
+ * with equal options share the same key.
+ */
+export const ClientKey: unique symbol = Symbol.for(
+	"effect-http-bridge/ClientKey",
+);
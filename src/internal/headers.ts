@@ -0,0 +1,28 @@
+// Response headers kept when results and errors are encoded, e.g. to be sent
+// to client components. Anything else, such as `set-cookie`, may carry
+// secrets and is dropped.
+const serializable = new Set([
+	"age",
+	"cache-control",
+	"content-language",
+	"content-length",
+	"content-type",
+	"date",
+	"etag",
+	"expires",
+	"last-modified",
+	"retry-after",
+	"x-request-id",
+]);
+
+/**
+ * Keeps the allow-listed headers of `headers`.
+ */
+export const serializableHeaders = (
+	headers: Readonly<Record<string, string>>,
+): Record<string, string> =>
+	Object.fromEntries(
+		Object.entries(headers).filter(([name]) =>
+			serializable.has(name.toLowerCase()),
+		),
+	);
@@ -0,0 +1,61 @@
+// Serializes requests into the keys used for deduplication and caching.
+// Object keys are sorted so that key order doesn't matter, and values JSON
+// can't represent, such as `bigint`s, `Map`s and circular references, still
+// produce distinct keys instead of throwing. `Redacted` values are keyed by
+// the hash of their content, so that requests made with different secrets
+// never share a key while keys don't hold the secrets in plain text.
+import * as Redacted from "effect/Redacted";
+import { sha256 } from "./sha256";
+
+/**
+ * Returns a JSON-like string identifying `value`. Arrays keep the form of a
+ * JSON array, so the key of an array prefixes the keys of its extensions.
+ */
+export const requestKey = (value: unknown): string => encode(value, []);
+
+const encode = (value: unknown, parents: Array<object>): string => {
+	switch (typeof value) {
+		case "bigint":
+			return `{"$bigint":"${value}"}`;
+		case "undefined":
+		case "function":
+		case "symbol":
+			return "null";
+		case "object":
+			break;
+		default:
+			return JSON.stringify(value);
+	}
+	if (value === null) {
+		return "null";
+	}
+	if (parents.includes(value)) {
+		return `"$circular"`;
+	}
+	const nested = [...parents, value];
+	if (Redacted.isRedacted(value)) {
+		return `{"$redacted":"${sha256(encode(Redacted.value(value), nested))}"}`;
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map((item) => encode(item, nested)).join(",")}]`;
+	}
+	if (value instanceof Map) {
+		return `{"$map":${encode(Array.from(value), nested)}}`;
+	}
+	if (value instanceof Set) {
+		return `{"$set":${encode(Array.from(value), nested)}}`;
+	}
+	if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+		return encode((value as { toJSON: () => unknown }).toJSON(), nested);
+	}
+	const entries = Object.entries(value)
+		.filter(
+			([, item]) =>
+				item !== undefined &&
+				typeof item !== "function" &&
+				typeof item !== "symbol",
+		)
+		.sort(([a], [b]) => (a < b ? -1 : 1))
+		.map(([key, item]) => `${JSON.stringify(key)}:${encode(item, nested)}`);
+	return `{${entries.join(",")}}`;
+};
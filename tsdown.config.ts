@@ -1,5 +1,8 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
-	entry: "src/index.ts",
+	entry: {
+		index: "src/index.ts",
+		react: "src/React.ts",
+	},
 });